@@ -1,41 +1,82 @@
 import { Link } from "expo-router";
-import * as Speech from "expo-speech";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
     SafeAreaView,
     ScrollView,
     StyleSheet,
+    Switch,
     Text,
     TextInput,
     TouchableOpacity,
     View,
 } from "react-native";
 
-// ✅ 公式ドキュメント準拠のモデル＆エンドポイント
-// https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent
-const GEMINI_MODEL = "gemini-2.5-flash";
-const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
+import HighlightedText from "@/components/speech/HighlightedText";
+import PresetChips from "@/components/speech/PresetChips";
+import { useAvailableVoices } from "@/hooks/useAvailableVoices";
+import { useLanguageOptions } from "@/hooks/useLanguageOptions";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import { useSpeech } from "@/hooks/useSpeech";
+import { loadApiKey, saveApiKey } from "@/lib/gemini/apiKey";
+import { generateText } from "@/lib/gemini/client";
+import { chunkText } from "@/lib/speech/chunks";
+import { applyAutoLanguage } from "@/lib/speech/languages";
+import { DEFAULT_SPEECH_SETTINGS } from "@/lib/speech/presets";
 
 export default function GeminiScreen() {
   const [prompt, setPrompt] = useState("AIについて簡単に説明してください");
   const [apiKey, setApiKey] = useState("");
+  const savedApiKeyRef = useRef("");
   const [generatedText, setGeneratedText] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  // 読み上げには Text-to-Speech 画面と共通のプリセットを使う
+  const { presets, activePreset, selectPreset } = useSpeechPresets();
+  const { options: languageOptions, updateOptions: updateLanguageOptions } =
+    useLanguageOptions();
+  const availableVoices = useAvailableVoices();
+  const speech = useSpeech();
+  const queue = useReadingQueue();
+  const { isSpeaking } = speech;
+  // 読み上げ中の位置は生成結果と同じテキストを読んでいるときだけ表示する
+  const isSpeakingResult = speech.isActive && speech.text === generatedText;
+  const resultChunks = useMemo(
+    () => chunkText(generatedText),
+    [generatedText]
+  );
 
-  // 音声合成の状態を監視
+  // 保存済みのAPIキーを読み込む（ボイスチャットの返答生成でも使う）
   useEffect(() => {
-    const checkSpeaking = async () => {
-      const speaking = await Speech.isSpeakingAsync();
-      setIsSpeaking(speaking);
-    };
-
-    const interval = setInterval(checkSpeaking, 500);
-    return () => clearInterval(interval);
+    loadApiKey()
+      .then((savedKey) => {
+        savedApiKeyRef.current = savedKey;
+        if (savedKey) {
+          setApiKey(savedKey);
+        }
+      })
+      .catch((error) => {
+        console.error("API key load error:", error);
+      });
   }, []);
 
+  // 入力のたびではなく、入力を終えたときと生成するときに保存する
+  const persistApiKey = async () => {
+    if (apiKey.trim() === savedApiKeyRef.current) {
+      return;
+    }
+    try {
+      await saveApiKey(apiKey);
+      savedApiKeyRef.current = apiKey.trim();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "APIキーを保存できませんでした";
+      Alert.alert("エラー", errorMessage);
+      console.error("API key save error:", error);
+    }
+  };
+
   const handleGenerate = async () => {
     if (!prompt.trim()) {
       Alert.alert("エラー", "プロンプトを入力してください");
@@ -47,18 +88,13 @@ export default function GeminiScreen() {
       return;
     }
 
+    persistApiKey();
     setIsGenerating(true);
     setGeneratedText("");
 
     try {
-      const response = await fetch(GEMINI_API_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          // ✅ 公式と同じくヘッダでAPIキーを渡す
-          "x-goog-api-key": apiKey,
-        },
-        body: JSON.stringify({
+      const text =
+        (await generateText(apiKey, {
           contents: [
             {
               // role は省略可能（公式REST例も parts のみ）
@@ -69,20 +105,7 @@ export default function GeminiScreen() {
               ],
             },
           ],
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.error?.message || `APIエラー: ${response.status}`
-        );
-      }
-
-      const data = await response.json();
-      const text =
-        data.candidates?.[0]?.content?.parts?.[0]?.text ||
-        "テキストを生成できませんでした";
+        })) || "テキストを生成できませんでした";
 
       setGeneratedText(text);
     } catch (error) {
@@ -95,37 +118,49 @@ export default function GeminiScreen() {
     }
   };
 
-  const handleSpeak = () => {
+  const settings = activePreset ?? DEFAULT_SPEECH_SETTINGS;
+
+  // 英語などが混ざった返答は、自動判定がオンなら文ごとにその言語の音声で読む
+  const speechChunks = () =>
+    languageOptions.autoDetect
+      ? applyAutoLanguage(generatedText, resultChunks, availableVoices, settings)
+      : resultChunks;
+
+  const handleSpeak = (startIndex = 0) => {
     if (!generatedText.trim()) {
       Alert.alert("エラー", "読み上げるテキストがありません");
       return;
     }
 
-    Speech.speak(generatedText, {
-      language: "ja-JP",
-      pitch: 1.0,
-      rate: 1.0,
-      onStart: () => {
-        setIsSpeaking(true);
-      },
-      onDone: () => {
-        setIsSpeaking(false);
-      },
+    speech.speakChunks(generatedText, speechChunks(), settings, {
+      startIndex,
       onError: (error) => {
         Alert.alert("エラー", `音声合成エラー: ${error.message}`);
-        setIsSpeaking(false);
       },
     });
   };
 
+  const handleAddToQueue = () => {
+    queue.add(generatedText, settings, "gemini", {
+      title: prompt,
+      chunks: languageOptions.autoDetect ? speechChunks() : undefined,
+    });
+    Alert.alert(
+      "読み上げキュー",
+      `${queue.items.length + 1}件目に追加しました`
+    );
+  };
+
   const handleStop = async () => {
-    await Speech.stop();
-    setIsSpeaking(false);
+    await speech.stop();
   };
 
   const handleClear = () => {
+    // 別の画面で始めた読み上げは止めない
+    if (speech.text === generatedText) {
+      speech.stop();
+    }
     setGeneratedText("");
-    Speech.stop();
   };
 
   return (
@@ -174,6 +209,8 @@ export default function GeminiScreen() {
             style={styles.apiKeyInput}
             value={apiKey}
             onChangeText={setApiKey}
+            onBlur={persistApiKey}
+            onSubmitEditing={persistApiKey}
             placeholder="APIキーを入力してください"
             placeholderTextColor="#999"
             secureTextEntry
@@ -226,7 +263,37 @@ export default function GeminiScreen() {
               </TouchableOpacity>
             </View>
             <View style={styles.resultBox}>
-              <Text style={styles.resultText}>{generatedText}</Text>
+              <HighlightedText
+                text={generatedText}
+                chunks={isSpeakingResult ? speech.chunks : resultChunks}
+                currentIndex={isSpeakingResult ? speech.currentIndex : -1}
+                boundary={isSpeakingResult ? speech.boundary : null}
+                onPressChunk={handleSpeak}
+                style={styles.resultText}
+              />
+            </View>
+            <Text style={styles.resultHint}>
+              文をタップするとそこから読み上げます
+            </Text>
+
+            {/* 読み上げプリセット */}
+            {presets.length > 0 && (
+              <View style={styles.presets}>
+                <PresetChips
+                  presets={presets}
+                  selectedId={activePreset?.id ?? null}
+                  onSelect={(preset) => selectPreset(preset.id)}
+                />
+              </View>
+            )}
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>文ごとに言語を自動判定</Text>
+              <Switch
+                value={languageOptions.autoDetect}
+                onValueChange={(autoDetect) =>
+                  updateLanguageOptions({ autoDetect })
+                }
+              />
             </View>
 
             {/* 読み上げコントロール */}
@@ -236,14 +303,24 @@ export default function GeminiScreen() {
                   styles.speakButton,
                   isSpeaking && styles.speakButtonActive,
                 ]}
-                onPress={handleSpeak}
+                onPress={() => handleSpeak()}
                 disabled={isSpeaking}
               >
                 <Text style={styles.speakButtonText}>
                   {isSpeaking ? "🔊 読み上げ中..." : "🔊 読み上げ"}
                 </Text>
               </TouchableOpacity>
-              {isSpeaking && (
+              {speech.isActive && (
+                <TouchableOpacity
+                  style={styles.pauseButton}
+                  onPress={speech.isPaused ? speech.resume : speech.pause}
+                >
+                  <Text style={styles.stopButtonText}>
+                    {speech.isPaused ? "再開" : "一時停止"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {speech.isActive && (
                 <TouchableOpacity
                   style={styles.stopButton}
                   onPress={handleStop}
@@ -252,6 +329,14 @@ export default function GeminiScreen() {
                 </TouchableOpacity>
               )}
             </View>
+            <TouchableOpacity
+              style={styles.queueButton}
+              onPress={handleAddToQueue}
+            >
+              <Text style={styles.queueButtonText}>
+                ＋ 読み上げキューに追加
+              </Text>
+            </TouchableOpacity>
           </View>
         ) : (
           <View style={styles.section}>
@@ -416,6 +501,11 @@ const styles = StyleSheet.create({
     minHeight: 100,
     marginBottom: 12,
   },
+  resultHint: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 6,
+  },
   resultText: {
     fontSize: 16,
     lineHeight: 24,
@@ -437,10 +527,36 @@ const styles = StyleSheet.create({
     color: "#999",
     textAlign: "center",
   },
+  presets: {
+    marginTop: 12,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
   speechControls: {
     flexDirection: "row",
     gap: 12,
   },
+  queueButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#34C759",
+    alignItems: "center",
+  },
+  queueButtonText: {
+    color: "#34C759",
+    fontSize: 15,
+    fontWeight: "600",
+  },
   speakButton: {
     flex: 1,
     backgroundColor: "#34C759",
@@ -457,6 +573,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  pauseButton: {
+    flex: 1,
+    backgroundColor: "#34C759",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+  },
   stopButton: {
     flex: 1,
     backgroundColor: "#ff3b30",
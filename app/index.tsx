@@ -2,14 +2,14 @@ import {
   AudioModule,
   RecordingPresets,
   setAudioModeAsync,
-  useAudioPlayer,
-  useAudioPlayerStatus,
   useAudioRecorder,
   useAudioRecorderState,
 } from "expo-audio";
-import { Link } from "expo-router";
+import * as Clipboard from "expo-clipboard";
+import { Link, router } from "expo-router";
 import { useEffect, useRef, useState } from "react";
 import {
+  ActivityIndicator,
   Alert,
   FlatList,
   SafeAreaView,
@@ -19,20 +19,155 @@ import {
   View,
 } from "react-native";
 
-type VoiceMessage = {
-  id: string;
-  uri: string;
-  from: "user" | "bot";
-  durationSec: number;
+import BotReplyStatus from "@/components/chat/BotReplyStatus";
+import ChatSettingsModal from "@/components/chat/ChatSettingsModal";
+import LevelMeter from "@/components/chat/LevelMeter";
+import MessageActionSheet, {
+  type MessageAction,
+} from "@/components/chat/MessageActionSheet";
+import RecordButton from "@/components/chat/RecordButton";
+import RecordingReview from "@/components/chat/RecordingReview";
+import SearchBar from "@/components/chat/SearchBar";
+import ThreadListModal from "@/components/chat/ThreadListModal";
+import VoiceMessageItem from "@/components/chat/VoiceMessageItem";
+import { useAmbientCalibration } from "@/hooks/useAmbientCalibration";
+import { useBotReply } from "@/hooks/useBotReply";
+import { useChatSettings } from "@/hooks/useChatSettings";
+import { useChatThreads } from "@/hooks/useChatThreads";
+import { useConversationExport } from "@/hooks/useConversationExport";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { usePlaybackController } from "@/hooks/usePlaybackController";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
+import { useSilenceDetector } from "@/hooks/useSilenceDetector";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import { useTranscription } from "@/hooks/useTranscription";
+import { deleteAudioFile } from "@/lib/audio/bytes";
+import { readAudioMetadata } from "@/lib/audio/metadata";
+import {
+  resolveRecordingProfile,
+  toRecordingOptions,
+  type RecordingProfileId,
+} from "@/lib/audio/recordingProfiles";
+import { meteringToLevel } from "@/lib/audio/waveform";
+import {
+  canTrimDraft,
+  messageFromDraft,
+  trimDraft,
+  type RecordingDraft,
+} from "@/lib/chat/recordingDraft";
+import type { VoiceMessage } from "@/lib/chat/types";
+import { DEFAULT_SPEECH_SETTINGS } from "@/lib/speech/presets";
+
+// メータリングを有効にして録音中の音量を取得する。
+// 実際のオプションは録音開始時に選択中のプロファイルから渡す
+const RECORDING_OPTIONS = {
+  ...RecordingPresets.HIGH_QUALITY,
+  isMeteringEnabled: true,
 };
+const METERING_INTERVAL_MS = 100;
+// 範囲の端がこれ以内なら切り詰めていないものとして扱う
+const TRIM_TOLERANCE_SEC = 0.05;
 
 export default function VoiceChatScreen() {
-  const [messages, setMessages] = useState<VoiceMessage[]>([]);
-  const [recordingTime, setRecordingTime] = useState(0);
-  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const {
+    threads,
+    activeThread,
+    activeThreadId,
+    messages,
+    selectThread,
+    createThread,
+    renameThread,
+    deleteThread,
+    addMessage,
+    replaceMessage,
+    deleteMessage,
+    updateMessage,
+  } = useChatThreads();
+  const {
+    states: botReplyStates,
+    requestReply,
+    retry: retryBotReply,
+    dismissError: dismissBotReplyError,
+  } = useBotReply(addMessage);
+  const {
+    settings,
+    isLoaded: isSettingsLoaded,
+    updateSettings,
+  } = useChatSettings();
+  // 文字起こしをキューに追加するときは TTS で最後に選んだプリセットで読む
+  const readingQueue = useReadingQueue();
+  const { activePreset: activeSpeechPreset } = useSpeechPresets();
+  const playback = usePlaybackController(
+    messages,
+    settings.autoPlay,
+    (message, memory) => {
+      if (activeThreadId) {
+        updateMessage(activeThreadId, message.id, memory);
+      }
+    }
+  );
+  const transcription = useTranscription(
+    activeThreadId,
+    messages,
+    // 設定を読み込むまでは既定のプロバイダーで始めない
+    isSettingsLoaded ? settings.transcriptionProviderId : null,
+    updateMessage
+  );
+  const search = useMessageSearch(messages);
+  const [isSearchVisible, setIsSearchVisible] = useState(false);
+  const listRef = useRef<FlatList<VoiceMessage>>(null);
+  const [isThreadListVisible, setIsThreadListVisible] = useState(false);
+  const [isSettingsVisible, setIsSettingsVisible] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const isPausedRef = useRef(false);
+  const [reviewDraft, setReviewDraft] = useState<RecordingDraft | null>(null);
+  const [actionTarget, setActionTarget] = useState<VoiceMessage | null>(null);
+  const [rerecordTarget, setRerecordTarget] = useState<{
+    threadId: string;
+    message: VoiceMessage;
+  } | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const recordingProfileIdRef = useRef<RecordingProfileId | null>(null);
+  // 自動停止（最大録音時間・無音検出）から最新の送信処理を呼ぶ
+  const stopAndSendRef = useRef<() => Promise<void>>(async () => {});
 
-  const audioRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
-  const recorderState = useAudioRecorderState(audioRecorder);
+  const audioRecorder = useAudioRecorder(RECORDING_OPTIONS);
+  const recorderState = useAudioRecorderState(
+    audioRecorder,
+    METERING_INTERVAL_MS
+  );
+  const inputLevel = meteringToLevel(recorderState.metering);
+  const silence = useSilenceDetector(recorderState, {
+    enabled: settings.silenceDetection,
+    thresholdDb: settings.silenceThresholdDb,
+    silenceSec: settings.silenceDurationSec,
+    onSilence: () => stopAndSendRef.current(),
+  });
+  const calibration = useAmbientCalibration();
+  const { isExporting, exportAndShare } = useConversationExport();
+  // 一時停止中もひとつの録音として扱う
+  const isRecordingSession = recorderState.isRecording || isPaused;
+  // 録り直しは開始したスレッドを表示している間だけ有効
+  const rerecordingMessage =
+    rerecordTarget && rerecordTarget.threadId === activeThreadId
+      ? rerecordTarget.message
+      : null;
+  // 録音時間はレコーダーの値を使う（一時停止していた時間は含まれず、再開しても端数がずれない）
+  const recordingMillis = isRecordingSession ? recorderState.durationMillis : 0;
+  const remainingSec =
+    settings.maxRecordingSec > 0
+      ? Math.max(0, Math.ceil(settings.maxRecordingSec - recordingMillis / 1000))
+      : null;
+
+  // 検索でヒットしたメッセージまでスクロールする
+  useEffect(() => {
+    if (search.currentIndex !== null) {
+      listRef.current?.scrollToIndex({
+        index: search.currentIndex,
+        viewPosition: 0.5,
+      });
+    }
+  }, [search.currentIndex]);
 
   // 録音権限のリクエストとオーディオモード設定
   useEffect(() => {
@@ -50,27 +185,12 @@ export default function VoiceChatScreen() {
     })();
   }, []);
 
-  // 録音時間のタイマー
+  // 録音中の音量を波形用に蓄積
   useEffect(() => {
     if (recorderState.isRecording) {
-      setRecordingTime(0);
-      recordingTimerRef.current = setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
-      }, 1000);
-    } else {
-      if (recordingTimerRef.current) {
-        clearInterval(recordingTimerRef.current);
-        recordingTimerRef.current = null;
-      }
-      setRecordingTime(0);
+      levelsRef.current.push(inputLevel);
     }
-
-    return () => {
-      if (recordingTimerRef.current) {
-        clearInterval(recordingTimerRef.current);
-      }
-    };
-  }, [recorderState.isRecording]);
+  }, [recorderState.isRecording, recorderState.durationMillis, inputLevel]);
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -78,99 +198,314 @@ export default function VoiceChatScreen() {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const formatDuration = (seconds: number): string => {
-    return seconds.toFixed(1) + "s";
+  const changePaused = (paused: boolean) => {
+    isPausedRef.current = paused;
+    setIsPaused(paused);
   };
 
-  const handleRecord = async () => {
-    if (recorderState.isRecording) {
-      // 録音停止
-      await audioRecorder.stop();
-      const uri = audioRecorder.uri;
-
-      if (uri) {
-        // 録音時間を取得（簡易版：実際には録音ファイルから取得する必要があります）
-        const duration = recordingTime || 1;
-
-        // ユーザーのメッセージを追加
-        const userMessage: VoiceMessage = {
-          id: Date.now().toString(),
-          uri: uri,
-          from: "user",
-          durationSec: duration,
-        };
-
-        setMessages((prev) => [...prev, userMessage]);
-
-        // 1秒後にBotのメッセージを自動追加
-        setTimeout(() => {
-          // Botは同じ音声ファイルを使用（実際には別の音声ファイルを用意するか、ダミーでOK）
-          const botMessage: VoiceMessage = {
-            id: (Date.now() + 1).toString(),
-            uri: uri, // 実際には別の音声ファイルを用意する
-            from: "bot",
-            durationSec: duration,
-          };
-          setMessages((prev) => [...prev, botMessage]);
-        }, 1000);
+  const startRecording = async () => {
+    playback.stop();
+    levelsRef.current = [];
+    changePaused(false);
+    silence.reset();
+
+    // この環境で録音できない形式が選ばれていたら高音質で録音する
+    const profile = resolveRecordingProfile(
+      settings.recordingProfileId,
+      settings.customRecordingProfile
+    );
+    recordingProfileIdRef.current = profile.id;
+    await audioRecorder.prepareToRecordAsync(toRecordingOptions(profile));
+    audioRecorder.record();
+  };
+
+  const togglePause = () => {
+    if (isPausedRef.current) {
+      audioRecorder.record();
+      changePaused(false);
+    } else if (audioRecorder.isRecording) {
+      audioRecorder.pause();
+      changePaused(true);
+    }
+  };
+
+  // 録音を止め、送信前の下書きにする
+  const finishRecording = async (): Promise<RecordingDraft | null> => {
+    if (!audioRecorder.isRecording && !isPausedRef.current) {
+      return null;
+    }
+    // 止めると 0 に戻るので、ヘッダーから長さを読めないときのために先に控えておく
+    const recordedSec = recorderState.durationMillis / 1000;
+    changePaused(false);
+    await audioRecorder.stop();
+    const uri = audioRecorder.uri;
+    if (!uri || !activeThreadId) {
+      return null;
+    }
+
+    // 録音ファイルのヘッダーから長さなどを取得（読めない場合はレコーダーの値を使う）
+    const metadata = await readAudioMetadata(uri);
+    let draft: RecordingDraft = {
+      threadId: activeThreadId,
+      uri,
+      metadata,
+      durationSec: metadata.durationSec || recordedSec,
+      levels: levelsRef.current,
+      recordingProfileId: recordingProfileIdRef.current ?? undefined,
+    };
+
+    // 話し始める前の無音を削る（切り出せるのは WAV の録音と Web のみ）
+    const leadingSec =
+      settings.silenceDetection && settings.trimLeadingSilence
+        ? silence.leadingSilenceSec()
+        : 0;
+    if (leadingSec > 0 && canTrimDraft(draft)) {
+      draft = await trimDraft(draft, leadingSec, draft.durationSec);
+    }
+    return draft;
+  };
+
+  const sendDraft = async (draft: RecordingDraft) => {
+    // 録り直しの場合は元のメッセージを差し替える（返答は作り直さない）
+    if (rerecordTarget && rerecordTarget.threadId === draft.threadId) {
+      setRerecordTarget(null);
+      const replaced = await replaceMessage(
+        draft.threadId,
+        rerecordTarget.message.id,
+        messageFromDraft(draft)
+      );
+      if (!replaced) {
+        deleteAudioFile(draft.uri);
       }
+      return;
+    }
+
+    // ユーザーのメッセージを追加（録音ファイルはスレッドのディレクトリへ移動される）
+    const userMessage = await addMessage(draft.threadId, messageFromDraft(draft));
+    if (!userMessage) {
+      deleteAudioFile(draft.uri);
+      return;
+    }
+
+    // 録音を Gemini に送り、返答を音声にして Bot のメッセージとして追加
+    requestReply(draft.threadId, userMessage);
+  };
+
+  /** review が true なら聞き直しのパネルを出し、false ならそのまま送信する */
+  const stopAndSend = async (review: boolean = false) => {
+    const draft = await finishRecording();
+    if (!draft) {
+      return;
+    }
+    if (review) {
+      setReviewDraft(draft);
     } else {
-      // 録音開始
-      await audioRecorder.prepareToRecordAsync();
-      audioRecorder.record();
+      await sendDraft(draft);
     }
   };
 
-  const VoiceMessageItem = ({ item }: { item: VoiceMessage }) => {
-    const player = useAudioPlayer(item.uri);
-    const status = useAudioPlayerStatus(player);
-    const isPlaying = status.playing;
-
-    const handlePlay = () => {
-      if (isPlaying) {
-        player.pause();
-      } else {
-        player.seekTo(0);
-        player.play();
+  const sendReviewedDraft = async (startSec: number, endSec: number) => {
+    if (!reviewDraft) {
+      return;
+    }
+    let draft = reviewDraft;
+    const isTrimmed =
+      startSec > TRIM_TOLERANCE_SEC ||
+      endSec < draft.durationSec - TRIM_TOLERANCE_SEC;
+    if (isTrimmed && canTrimDraft(draft)) {
+      draft = await trimDraft(draft, startSec, endSec);
+    }
+    try {
+      await sendDraft(draft);
+    } catch (error) {
+      // 送信に失敗したときは聞き直しのパネルを残す。切り詰めた場合は元の録音が
+      // 削除されているので、切り詰めた録音を下書きにする
+      if (draft !== reviewDraft) {
+        setReviewDraft(draft);
       }
-    };
+      throw error;
+    }
+    setReviewDraft(null);
+  };
 
-    const isUser = item.from === "user";
+  const discardReviewedDraft = () => {
+    if (reviewDraft) {
+      deleteAudioFile(reviewDraft.uri);
+    }
+    setReviewDraft(null);
+  };
 
-    return (
-      <View
-        style={[
-          styles.messageContainer,
-          isUser ? styles.userMessageContainer : styles.botMessageContainer,
-        ]}
-      >
-        {!isUser && <Text style={styles.messageLabel}>Bot</Text>}
-        <View
-          style={[
-            styles.messageBubble,
-            isUser ? styles.userBubble : styles.botBubble,
-          ]}
-        >
-          <TouchableOpacity onPress={handlePlay} style={styles.playButton}>
-            <Text style={[styles.playIcon, isUser && styles.playIconUser]}>
-              {isPlaying ? "⏸" : "▶︎"}
-            </Text>
-          </TouchableOpacity>
-          <Text style={[styles.durationText, isUser && styles.durationTextUser]}>
-            {formatDuration(item.durationSec)}
-          </Text>
-        </View>
-        {isUser && <Text style={styles.messageLabel}>You</Text>}
-      </View>
+  // 送信せずに録音を止め、ファイルも削除する
+  const cancelRecording = async () => {
+    if (!audioRecorder.isRecording && !isPausedRef.current) {
+      return;
+    }
+    changePaused(false);
+    await audioRecorder.stop();
+    if (audioRecorder.uri) {
+      deleteAudioFile(audioRecorder.uri);
+    }
+  };
+
+  const exportThread = () => {
+    if (messages.length === 0) {
+      Alert.alert("エラー", "書き出すメッセージがありません");
+      return;
+    }
+    exportAndShare(activeThread?.title ?? "voicechat", messages);
+  };
+
+  // Bot の返答の元になったユーザーの録音（直前のユーザーのメッセージ）
+  const replySourceOf = (message: VoiceMessage) => {
+    const index = messages.findIndex((m) => m.id === message.id);
+    return messages
+      .slice(0, Math.max(0, index))
+      .reverse()
+      .find((m) => m.from === "user");
+  };
+
+  const confirmDeleteMessage = (message: VoiceMessage) => {
+    if (!activeThreadId) {
+      return;
+    }
+    const threadId = activeThreadId;
+    const source = message.from === "bot" ? replySourceOf(message) : undefined;
+
+    Alert.alert(
+      "メッセージを削除",
+      "このメッセージと録音ファイルを削除します。よろしいですか？",
+      [
+        { text: "キャンセル", style: "cancel" },
+        ...(source
+          ? [
+              {
+                text: "削除して返答を作り直す",
+                onPress: async () => {
+                  await deleteMessage(threadId, message.id);
+                  requestReply(threadId, source);
+                },
+              },
+            ]
+          : []),
+        {
+          text: "削除",
+          style: "destructive" as const,
+          onPress: () => deleteMessage(threadId, message.id),
+        },
+      ]
     );
   };
 
+  const messageActionsOf = (message: VoiceMessage): MessageAction[] => {
+    const actions: MessageAction[] = [];
+    const text = message.text ?? message.transcript;
+    if (text) {
+      actions.push(
+        {
+          label: "📋 テキストをコピー",
+          onPress: () => Clipboard.setStringAsync(text),
+        },
+        {
+          label: "📢 TTS で開く",
+          onPress: () => router.push({ pathname: "/speech", params: { text } }),
+        },
+        {
+          label: "🔊 読み上げキューに追加",
+          onPress: () => {
+            readingQueue.add(
+              text,
+              activeSpeechPreset ?? DEFAULT_SPEECH_SETTINGS,
+              "transcript"
+            );
+            Alert.alert(
+              "読み上げキュー",
+              `${readingQueue.items.length + 1}件目に追加しました`
+            );
+          },
+        }
+      );
+    }
+    if (message.from === "user" && activeThreadId) {
+      actions.push({
+        label: "🎤 録り直す",
+        onPress: () => setRerecordTarget({ threadId: activeThreadId, message }),
+      });
+    }
+    actions.push(
+      {
+        label: "📤 書き出す",
+        onPress: () =>
+          exportAndShare(
+            `${activeThread?.title ?? "voicechat"}-${message.from}`,
+            [message]
+          ),
+      },
+      {
+        label: "🗑 削除",
+        destructive: true,
+        onPress: () => confirmDeleteMessage(message),
+      }
+    );
+    return actions;
+  };
+
+  const handleCalibrate = async () => {
+    if (isRecordingSession) {
+      return;
+    }
+    const thresholdDb = await calibration.calibrate();
+    if (thresholdDb !== null) {
+      updateSettings({ silenceThresholdDb: thresholdDb });
+    }
+  };
+
+  // 最大録音時間に達したら止めて送信する
+  stopAndSendRef.current = stopAndSend;
+  useEffect(() => {
+    if (remainingSec === 0 && recorderState.isRecording) {
+      stopAndSendRef.current();
+    }
+  }, [remainingSec, recorderState.isRecording]);
+
   return (
     <SafeAreaView style={styles.container}>
       {/* タイトルバー */}
       <View style={styles.header}>
         <Text style={styles.title}>VoiceChat Mini</Text>
         <Text style={styles.subtitle}>録音してボイスチャット体験</Text>
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={styles.threadSelector}
+            onPress={() => setIsThreadListVisible(true)}
+          >
+            <Text style={styles.threadSelectorText} numberOfLines={1}>
+              💬 {activeThread?.title ?? "読み込み中..."} ▾
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={() => setIsSearchVisible(true)}
+          >
+            <Text style={styles.settingsButtonText}>🔍</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={exportThread}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : (
+              <Text style={styles.settingsButtonText}>📤</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={() => setIsSettingsVisible(true)}
+          >
+            <Text style={styles.settingsButtonText}>⚙️</Text>
+          </TouchableOpacity>
+        </View>
         <View style={styles.navLinksContainer}>
           <Link href="/speech" asChild>
             <TouchableOpacity style={[styles.navLink, styles.navLinkHalf]}>
@@ -182,41 +517,182 @@ export default function VoiceChatScreen() {
               <Text style={styles.navLinkText}>🤖 Gemini</Text>
             </TouchableOpacity>
           </Link>
+          <Link href="/reader" asChild>
+            <TouchableOpacity style={[styles.navLink, styles.navLinkHalf]}>
+              <Text style={styles.navLinkText}>📚 リーダー</Text>
+            </TouchableOpacity>
+          </Link>
         </View>
       </View>
 
+      <ThreadListModal
+        visible={isThreadListVisible}
+        threads={threads}
+        activeThreadId={activeThreadId}
+        onClose={() => setIsThreadListVisible(false)}
+        onSelect={selectThread}
+        onCreate={() => createThread()}
+        onRename={renameThread}
+        onDelete={deleteThread}
+      />
+
+      <ChatSettingsModal
+        visible={isSettingsVisible}
+        settings={settings}
+        onChange={updateSettings}
+        onClose={() => setIsSettingsVisible(false)}
+        isCalibrating={calibration.isCalibrating}
+        onCalibrate={handleCalibrate}
+      />
+
+      <MessageActionSheet
+        visible={actionTarget !== null}
+        title={actionTarget?.from === "bot" ? "Bot の返答" : "あなたのメッセージ"}
+        actions={actionTarget ? messageActionsOf(actionTarget) : []}
+        onClose={() => setActionTarget(null)}
+      />
+
+      {isSearchVisible && (
+        <SearchBar
+          query={search.query}
+          onChangeQuery={search.setQuery}
+          position={search.position}
+          matchCount={search.matchCount}
+          onPrevious={search.previous}
+          onNext={search.next}
+          onClose={() => {
+            search.setQuery("");
+            setIsSearchVisible(false);
+          }}
+        />
+      )}
+
       {/* メッセージリスト */}
       <FlatList
+        ref={listRef}
         data={messages}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => <VoiceMessageItem item={item} />}
+        renderItem={({ item }) => {
+          const isActive = item.id === playback.currentId;
+          return (
+            <VoiceMessageItem
+              item={item}
+              isActive={isActive}
+              isPlaying={isActive && playback.status.playing}
+              currentTime={isActive ? playback.status.currentTime : 0}
+              playerDuration={isActive ? playback.status.duration : 0}
+              onTogglePlay={playback.togglePlay}
+              onSeek={playback.seek}
+              onCycleRate={playback.cycleRate}
+              onLongPress={setActionTarget}
+              isTranscribing={item.id === transcription.transcribingId}
+              onRetryTranscript={transcription.retry}
+              onEditTranscript={transcription.edit}
+              isHighlighted={item.id === search.currentId}
+            />
+          );
+        }}
+        extraData={[
+          playback.currentId,
+          transcription.transcribingId,
+          search.currentId,
+        ]}
+        // 高さが不定なのでまだ描画していない位置へは一度近くまで動かしてから再試行する
+        onScrollToIndexFailed={(info) => {
+          listRef.current?.scrollToOffset({
+            offset: info.averageItemLength * info.index,
+            animated: false,
+          });
+          setTimeout(() => {
+            listRef.current?.scrollToIndex({
+              index: info.index,
+              viewPosition: 0.5,
+            });
+          }, 100);
+        }}
         contentContainerStyle={styles.messagesList}
         inverted={false}
+        ListFooterComponent={
+          <>
+            {Object.entries(botReplyStates)
+              .filter(([, state]) => state.threadId === activeThreadId)
+              .map(([sourceId, state]) => (
+                <BotReplyStatus
+                  key={sourceId}
+                  state={state}
+                  onRetry={() => retryBotReply(sourceId)}
+                  onDismiss={() => dismissBotReplyError(sourceId)}
+                />
+              ))}
+          </>
+        }
       />
 
       {/* 録音コントロール */}
       <View style={styles.recordingControl}>
-        {recorderState.isRecording && (
+        {rerecordingMessage && !reviewDraft && (
+          <View style={styles.rerecordBanner}>
+            <Text style={styles.rerecordText}>
+              🎤 メッセージを録り直しています（元の長さ{" "}
+              {rerecordingMessage.durationSec.toFixed(1)}s）
+            </Text>
+            {!isRecordingSession && (
+              <TouchableOpacity onPress={() => setRerecordTarget(null)}>
+                <Text style={styles.rerecordCancel}>やめる</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        {isRecordingSession && (
           <View style={styles.recordingTimer}>
-            <Text style={styles.recordingTimerText}>
-              Recording {formatTime(recordingTime)}
+            <Text
+              style={[
+                styles.recordingTimerText,
+                isPaused && styles.recordingTimerTextPaused,
+              ]}
+            >
+              {isPaused ? "Paused" : "Recording"} {formatTime(Math.floor(recordingMillis / 1000))}
+              {settings.maxRecordingSec > 0 &&
+                ` / ${formatTime(settings.maxRecordingSec)}`}
             </Text>
+            <LevelMeter level={isPaused ? 0 : inputLevel} />
+            <TouchableOpacity style={styles.pauseButton} onPress={togglePause}>
+              <Text style={styles.pauseButtonText}>
+                {isPaused ? "▶︎ 再開" : "⏸ 一時停止"}
+              </Text>
+            </TouchableOpacity>
           </View>
         )}
-        <TouchableOpacity
-          onPress={handleRecord}
-          style={[
-            styles.micButton,
-            recorderState.isRecording && styles.micButtonRecording,
-          ]}
-        >
-          <Text style={styles.micIcon}>🎤</Text>
-        </TouchableOpacity>
-        <Text style={styles.recordHint}>
-          {recorderState.isRecording
-            ? "Recording... Tap to stop"
-            : "Tap to record"}
-        </Text>
+        {isRecordingSession &&
+          settings.silenceDetection &&
+          silence.hasSpeech &&
+          silence.silentMs > 0 && (
+            <Text style={styles.silenceHint}>
+              無音 {(silence.silentMs / 1000).toFixed(1)}s /{" "}
+              {settings.silenceDurationSec}s で送信
+            </Text>
+          )}
+        {isRecordingSession && remainingSec !== null && remainingSec <= 10 && (
+          <Text style={styles.countdownWarning}>
+            あと {remainingSec} 秒で録音を止めて送信します
+          </Text>
+        )}
+        {reviewDraft ? (
+          <RecordingReview
+            key={reviewDraft.uri}
+            draft={reviewDraft}
+            onSend={sendReviewedDraft}
+            onDiscard={discardReviewedDraft}
+          />
+        ) : (
+          <RecordButton
+            mode={settings.recordMode}
+            isRecording={isRecordingSession}
+            onStart={startRecording}
+            onSend={() => stopAndSend(settings.reviewBeforeSend)}
+            onCancel={cancelRecording}
+          />
+        )}
       </View>
     </SafeAreaView>
   );
@@ -244,57 +720,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#666",
   },
-  messagesList: {
-    padding: 16,
-    paddingBottom: 20,
-  },
-  messageContainer: {
-    marginBottom: 12,
+  toolbar: {
+    marginTop: 12,
     flexDirection: "row",
     alignItems: "center",
+    gap: 8,
   },
-  userMessageContainer: {
-    justifyContent: "flex-end",
-  },
-  botMessageContainer: {
-    justifyContent: "flex-start",
-  },
-  messageBubble: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: 12,
+  threadSelector: {
+    flex: 1,
     paddingVertical: 8,
-    borderRadius: 18,
-    maxWidth: "70%",
-  },
-  userBubble: {
-    backgroundColor: "#007AFF",
-  },
-  botBubble: {
-    backgroundColor: "#E5E5EA",
-  },
-  playButton: {
-    marginRight: 8,
-  },
-  playIcon: {
-    fontSize: 16,
-    color: "#333",
-  },
-  playIconUser: {
-    color: "#fff",
+    paddingHorizontal: 12,
+    backgroundColor: "#f0f0f0",
+    borderRadius: 8,
   },
-  durationText: {
+  threadSelectorText: {
     fontSize: 14,
+    fontWeight: "600",
     color: "#333",
-    fontWeight: "500",
   },
-  durationTextUser: {
-    color: "#fff",
+  settingsButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: "#f0f0f0",
+    borderRadius: 8,
   },
-  messageLabel: {
-    fontSize: 12,
-    color: "#999",
-    marginHorizontal: 8,
+  settingsButtonText: {
+    fontSize: 18,
+  },
+  messagesList: {
+    padding: 16,
+    paddingBottom: 20,
   },
   recordingControl: {
     padding: 20,
@@ -305,6 +760,9 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   recordingTimer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
     marginBottom: 8,
   },
   recordingTimerText: {
@@ -312,29 +770,45 @@ const styles = StyleSheet.create({
     color: "#ff3b30",
     fontWeight: "600",
   },
-  micButton: {
-    width: 70,
-    height: 70,
-    borderRadius: 35,
-    backgroundColor: "#007AFF",
-    justifyContent: "center",
+  recordingTimerTextPaused: {
+    color: "#666",
+  },
+  pauseButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    backgroundColor: "#f0f0f0",
+    borderRadius: 12,
+  },
+  pauseButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#333",
+  },
+  rerecordBanner: {
+    flexDirection: "row",
     alignItems: "center",
+    gap: 12,
     marginBottom: 8,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 3.84,
-    elevation: 5,
   },
-  micButtonRecording: {
-    backgroundColor: "#ff3b30",
+  rerecordText: {
+    fontSize: 12,
+    color: "#333",
   },
-  micIcon: {
-    fontSize: 32,
+  rerecordCancel: {
+    fontSize: 12,
+    color: "#007AFF",
+    fontWeight: "600",
   },
-  recordHint: {
+  silenceHint: {
     fontSize: 12,
     color: "#666",
+    marginBottom: 8,
+  },
+  countdownWarning: {
+    fontSize: 12,
+    color: "#ff3b30",
+    fontWeight: "600",
+    marginBottom: 8,
   },
   navLinksContainer: {
     marginTop: 12,
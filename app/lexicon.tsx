@@ -0,0 +1,537 @@
+import * as Clipboard from "expo-clipboard";
+import { Link } from "expo-router";
+import { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useLexicon } from "@/hooks/useLexicon";
+import { useSpeech } from "@/hooks/useSpeech";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import {
+  applyLexicon,
+  createLexiconEntryId,
+  parseLexiconJson,
+  shareLexicon,
+  validateLexiconEntry,
+  type LexiconEntry,
+} from "@/lib/speech/lexicon";
+import { DEFAULT_SPEECH_SETTINGS } from "@/lib/speech/presets";
+
+type Draft = Omit<LexiconEntry, "id" | "language"> & {
+  /** 編集中の項目の id（新規なら null） */
+  id: string | null;
+  language: string;
+  /** 試し読みに使う文（空なら表記を読む） */
+  sample: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  surface: "",
+  reading: "",
+  isRegex: false,
+  language: "",
+  sample: "",
+};
+
+export default function LexiconScreen() {
+  const { entries, saveEntry, deleteEntry, importEntries } = useLexicon();
+  const speech = useSpeech();
+  const { activePreset } = useSpeechPresets();
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importText, setImportText] = useState("");
+
+  const draftEntry: LexiconEntry = {
+    id: draft.id ?? "draft",
+    surface: draft.surface,
+    reading: draft.reading,
+    isRegex: draft.isRegex,
+    language: draft.language.trim() || null,
+  };
+  const draftError = draft.surface ? validateLexiconEntry(draftEntry) : null;
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  /** 辞書を当てはめた結果を、項目の言語（なければプリセットの言語）で読み上げる */
+  const testSpeak = (text: string, entry: LexiconEntry) => {
+    const base = activePreset ?? DEFAULT_SPEECH_SETTINGS;
+    const settings = entry.language
+      ? { ...base, voice: undefined, language: entry.language }
+      : base;
+    // 編集中の項目は保存済みの版の代わりに使い、辞書が二重にかからないようにする
+    const others = entries.filter((e) => e.id !== entry.id);
+    speech.speak(text, settings, {
+      lexicon: [...others, entry],
+      onError: (error) => {
+        Alert.alert("エラー", `音声合成エラー: ${error.message}`);
+      },
+    });
+  };
+
+  const handleSave = () => {
+    const error = validateLexiconEntry(draftEntry);
+    if (error) {
+      Alert.alert("エラー", error);
+      return;
+    }
+    saveEntry({ ...draftEntry, id: draft.id ?? createLexiconEntryId() });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const confirmDelete = (entry: LexiconEntry) => {
+    Alert.alert("項目を削除", `「${entry.surface}」を削除しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      {
+        text: "削除",
+        style: "destructive",
+        onPress: () => {
+          deleteEntry(entry.id);
+          if (draft.id === entry.id) {
+            setDraft(EMPTY_DRAFT);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleExport = async () => {
+    try {
+      await shareLexicon(entries);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "書き出しに失敗しました";
+      Alert.alert("エラー", errorMessage);
+      console.error("Lexicon export error:", error);
+    }
+  };
+
+  const handleImport = () => {
+    let imported: LexiconEntry[];
+    try {
+      imported = parseLexiconJson(importText);
+    } catch (error) {
+      Alert.alert(
+        "エラー",
+        error instanceof Error ? error.message : "読み込みに失敗しました"
+      );
+      return;
+    }
+
+    const finish = (replace: boolean) => {
+      importEntries(imported, replace);
+      setImportText("");
+      setIsImporting(false);
+    };
+    Alert.alert("辞書の読み込み", `${imported.length} 件の項目を読み込みます`, [
+      { text: "キャンセル", style: "cancel" },
+      { text: "置き換える", style: "destructive", onPress: () => finish(true) },
+      { text: "追加する", onPress: () => finish(false) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* タイトルバー */}
+        <View style={styles.header}>
+          <Text style={styles.title}>読み辞書</Text>
+          <Text style={styles.subtitle}>
+            読み間違える固有名詞や漢字を、読み上げる前に置き換えます
+          </Text>
+          <View style={styles.navLinksContainer}>
+            <Link href="/speech" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>← TTS</Text>
+              </TouchableOpacity>
+            </Link>
+          </View>
+        </View>
+
+        {/* 追加・編集 */}
+        <View style={styles.section}>
+          <Text style={styles.label}>
+            {draft.id ? "項目を編集" : "項目を追加"}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={draft.surface}
+            onChangeText={(surface) => updateDraft({ surface })}
+            placeholder={
+              draft.isRegex ? "正規表現（例: (\\d+)GB）" : "表記（例: 東雲）"
+            }
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={styles.input}
+            value={draft.reading}
+            onChangeText={(reading) => updateDraft({ reading })}
+            placeholder={
+              draft.isRegex ? "置き換え（例: $1ギガバイト）" : "読み（例: しののめ）"
+            }
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={styles.input}
+            value={draft.language}
+            onChangeText={(language) => updateDraft({ language })}
+            placeholder="言語（例: ja, en-US。空欄ならすべての言語）"
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+          />
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>正規表現として扱う</Text>
+            <Switch
+              value={draft.isRegex}
+              onValueChange={(isRegex) => updateDraft({ isRegex })}
+            />
+          </View>
+          {draftError && <Text style={styles.errorText}>{draftError}</Text>}
+
+          <TextInput
+            style={styles.input}
+            value={draft.sample}
+            onChangeText={(sample) => updateDraft({ sample })}
+            placeholder="試し読みする文（空欄なら表記を読みます）"
+            placeholderTextColor="#999"
+          />
+          {draft.surface && !draftError ? (
+            <Text style={styles.previewText}>
+              →{" "}
+              {applyLexicon(
+                draft.sample || draft.surface,
+                [{ ...draftEntry, language: null }],
+                ""
+              )}
+            </Text>
+          ) : null}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={() =>
+                testSpeak(draft.sample || draft.surface, draftEntry)
+              }
+              disabled={!draft.surface || !!draftError}
+            >
+              <Text style={styles.secondaryButtonText}>▶︎ 試し読み</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={handleSave}
+            >
+              <Text style={styles.primaryButtonText}>
+                {draft.id ? "更新" : "追加"}
+              </Text>
+            </TouchableOpacity>
+            {draft.id && (
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setDraft(EMPTY_DRAFT)}
+              >
+                <Text style={styles.cancelButtonText}>キャンセル</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* 登録済みの項目 */}
+        <View style={styles.section}>
+          <Text style={styles.label}>登録済み ({entries.length}件)</Text>
+          {entries.length === 0 && (
+            <Text style={styles.emptyText}>まだ登録されていません</Text>
+          )}
+          {entries.map((entry) => (
+            <TouchableOpacity
+              key={entry.id}
+              style={[
+                styles.entry,
+                draft.id === entry.id && styles.entrySelected,
+              ]}
+              onPress={() =>
+                setDraft({
+                  id: entry.id,
+                  surface: entry.surface,
+                  reading: entry.reading,
+                  isRegex: entry.isRegex,
+                  language: entry.language ?? "",
+                  sample: "",
+                })
+              }
+            >
+              <View style={styles.entryInfo}>
+                <Text style={styles.entryText}>
+                  {entry.surface} → {entry.reading}
+                </Text>
+                <View style={styles.badges}>
+                  {entry.isRegex && <Text style={styles.badge}>正規表現</Text>}
+                  <Text style={styles.badge}>
+                    {entry.language ?? "すべての言語"}
+                  </Text>
+                </View>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => testSpeak(entry.surface, entry)}
+              >
+                <Text style={styles.iconButtonText}>▶︎</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => confirmDelete(entry)}
+              >
+                <Text style={[styles.iconButtonText, styles.deleteText]}>
+                  削除
+                </Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* JSON の読み込み・書き出し */}
+        <View style={styles.section}>
+          <Text style={styles.label}>JSON で読み込み・書き出し</Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={handleExport}
+              disabled={entries.length === 0}
+            >
+              <Text style={styles.secondaryButtonText}>📤 書き出す</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={() => setIsImporting((prev) => !prev)}
+            >
+              <Text style={styles.secondaryButtonText}>📥 読み込む</Text>
+            </TouchableOpacity>
+          </View>
+          {isImporting && (
+            <View style={styles.importBox}>
+              <TextInput
+                style={[styles.input, styles.importInput]}
+                value={importText}
+                onChangeText={setImportText}
+                multiline
+                placeholder='[{"surface": "東雲", "reading": "しののめ", "isRegex": false, "language": "ja"}]'
+                placeholderTextColor="#999"
+                autoCapitalize="none"
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, styles.secondaryButton]}
+                  onPress={async () =>
+                    setImportText(await Clipboard.getStringAsync())
+                  }
+                >
+                  <Text style={styles.secondaryButtonText}>
+                    クリップボードから貼り付け
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.primaryButton]}
+                  onPress={handleImport}
+                  disabled={!importText.trim()}
+                >
+                  <Text style={styles.primaryButtonText}>読み込む</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#666",
+  },
+  navLinksContainer: {
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 8,
+  },
+  navLink: {
+    padding: 12,
+    backgroundColor: "#34C759",
+    borderRadius: 8,
+    alignItems: "center",
+    flex: 1,
+  },
+  navLinkText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  section: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: "#333",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#ff3b30",
+  },
+  previewText: {
+    fontSize: 14,
+    color: "#007AFF",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  secondaryButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  cancelButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 14,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  entrySelected: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  badges: {
+    flexDirection: "row",
+    gap: 6,
+    marginTop: 4,
+  },
+  badge: {
+    fontSize: 11,
+    color: "#666",
+    backgroundColor: "#e0e0e0",
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: "hidden",
+  },
+  iconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  iconButtonText: {
+    fontSize: 14,
+    color: "#007AFF",
+  },
+  deleteText: {
+    color: "#ff3b30",
+  },
+  importBox: {
+    gap: 8,
+  },
+  importInput: {
+    minHeight: 100,
+    textAlignVertical: "top",
+    fontSize: 13,
+  },
+});
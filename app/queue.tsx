@@ -0,0 +1,546 @@
+import { Link } from "expo-router";
+import { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import PresetChips from "@/components/speech/PresetChips";
+import { useAvailableVoices } from "@/hooks/useAvailableVoices";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
+import { useSpeech } from "@/hooks/useSpeech";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import { languageLabel } from "@/lib/speech/languages";
+import {
+  findMatchingPreset,
+  roundSpeechValue,
+  SPEECH_VALUE_STEP,
+  toSpeechSettings,
+} from "@/lib/speech/presets";
+import {
+  QUEUE_GAP_STEP_MS,
+  SOURCE_LABELS,
+  type QueueItem,
+  type RepeatMode,
+} from "@/lib/speech/queue";
+
+const REPEAT_OPTIONS: { mode: RepeatMode; label: string }[] = [
+  { mode: "off", label: "繰り返しなし" },
+  { mode: "all", label: "🔁 すべて" },
+  { mode: "one", label: "🔂 1件" },
+];
+
+export default function QueueScreen() {
+  const queue = useReadingQueue();
+  const speech = useSpeech();
+  const { presets } = useSpeechPresets();
+  const availableVoices = useAvailableVoices();
+  // 設定を編集している項目
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const voiceNameOf = (identifier?: string) =>
+    availableVoices.find((v) => v.identifier === identifier)?.name;
+
+  const describeSettings = (item: QueueItem) =>
+    [
+      voiceNameOf(item.settings.voice) ?? languageLabel(item.settings.language),
+      `速度 ${item.settings.rate.toFixed(1)}`,
+      `ピッチ ${item.settings.pitch.toFixed(1)}`,
+    ].join(" ・ ");
+
+  const handlePlay = (id?: string) => {
+    queue.play(id, {
+      onError: (error) => {
+        Alert.alert("エラー", `音声合成エラー: ${error.message}`);
+      },
+    });
+  };
+
+  const confirmClear = () => {
+    Alert.alert("キューを空にする", "すべての項目を削除しますか？", [
+      { text: "キャンセル", style: "cancel" },
+      { text: "削除", style: "destructive", onPress: queue.clear },
+    ]);
+  };
+
+  const changeRate = (item: QueueItem, delta: number) => {
+    queue.update(item.id, {
+      settings: {
+        ...item.settings,
+        rate: roundSpeechValue(item.settings.rate + delta),
+      },
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* タイトルバー */}
+        <View style={styles.header}>
+          <Text style={styles.title}>読み上げキュー</Text>
+          <Text style={styles.subtitle}>
+            追加したテキストを順番に読み上げます
+          </Text>
+          <View style={styles.navLinksContainer}>
+            <Link href="/speech" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>← TTS</Text>
+              </TouchableOpacity>
+            </Link>
+            <Link href="/" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>🏠 ホーム</Text>
+              </TouchableOpacity>
+            </Link>
+          </View>
+        </View>
+
+        {/* 再生コントロール */}
+        <View style={styles.section}>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={queue.previous}
+              disabled={queue.items.length === 0}
+            >
+              <Text style={styles.secondaryButtonText}>⏮ 前へ</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                queue.isPlaying ? styles.stopButton : styles.primaryButton,
+              ]}
+              onPress={() => (queue.isPlaying ? queue.stop() : handlePlay())}
+              disabled={queue.items.length === 0}
+            >
+              <Text style={styles.primaryButtonText}>
+                {queue.isPlaying ? "停止" : "▶ 再生"}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.secondaryButton]}
+              onPress={queue.next}
+              disabled={queue.items.length === 0}
+            >
+              <Text style={styles.secondaryButtonText}>次へ ⏭</Text>
+            </TouchableOpacity>
+          </View>
+          {queue.isPlaying && speech.isActive && (
+            <TouchableOpacity
+              style={[styles.button, styles.pauseButton]}
+              onPress={speech.isPaused ? speech.resume : speech.pause}
+            >
+              <Text style={styles.primaryButtonText}>
+                {speech.isPaused ? "再開" : "一時停止"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.chips}>
+            {REPEAT_OPTIONS.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[
+                  styles.chip,
+                  queue.repeat === mode && styles.chipSelected,
+                ]}
+                onPress={() => queue.setRepeat(mode)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    queue.repeat === mode && styles.chipTextSelected,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.stepperRow}>
+            <Text style={styles.settingLabel}>
+              項目の間隔: {(queue.gapMs / 1000).toFixed(1)}秒
+            </Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => queue.setGap(queue.gapMs - QUEUE_GAP_STEP_MS)}
+              >
+                <Text style={styles.primaryButtonText}>-</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => queue.setGap(queue.gapMs + QUEUE_GAP_STEP_MS)}
+              >
+                <Text style={styles.primaryButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {/* 項目の一覧 */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.label}>項目 ({queue.items.length}件)</Text>
+            {queue.items.length > 0 && (
+              <TouchableOpacity onPress={confirmClear}>
+                <Text style={styles.deleteText}>すべて削除</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {queue.items.length === 0 && (
+            <Text style={styles.emptyText}>
+              TTS・Gemini の結果やボイスメッセージの文字起こしから追加できます
+            </Text>
+          )}
+          {queue.items.map((item, index) => {
+            const isCurrent = item.id === queue.currentId;
+            const isEditing = item.id === editingId;
+            return (
+              <View
+                key={item.id}
+                style={[styles.item, isCurrent && styles.itemCurrent]}
+              >
+                <View style={styles.itemRow}>
+                  <TouchableOpacity
+                    style={styles.itemInfo}
+                    onPress={() => handlePlay(item.id)}
+                  >
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {isCurrent && queue.isPlaying ? "🔊 " : ""}
+                      {item.title}
+                    </Text>
+                    <Text style={styles.itemText} numberOfLines={2}>
+                      {item.text}
+                    </Text>
+                    <View style={styles.badges}>
+                      <Text style={styles.badge}>
+                        {SOURCE_LABELS[item.source]}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {describeSettings(item)}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                  <View style={styles.itemActions}>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => queue.move(item.id, -1)}
+                      disabled={index === 0}
+                    >
+                      <Text
+                        style={[
+                          styles.iconButtonText,
+                          index === 0 && styles.disabledText,
+                        ]}
+                      >
+                        ▲
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => queue.move(item.id, 1)}
+                      disabled={index === queue.items.length - 1}
+                    >
+                      <Text
+                        style={[
+                          styles.iconButtonText,
+                          index === queue.items.length - 1 &&
+                            styles.disabledText,
+                        ]}
+                      >
+                        ▼
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                <View style={styles.itemFooter}>
+                  <TouchableOpacity
+                    onPress={() => setEditingId(isEditing ? null : item.id)}
+                  >
+                    <Text style={styles.linkText}>
+                      {isEditing ? "閉じる" : "⚙️ 音声・速度"}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => queue.remove(item.id)}>
+                    <Text style={styles.deleteText}>削除</Text>
+                  </TouchableOpacity>
+                </View>
+                {isEditing && (
+                  <View style={styles.editor}>
+                    <PresetChips
+                      presets={presets}
+                      selectedId={
+                        findMatchingPreset(presets, item.settings)?.id ?? null
+                      }
+                      onSelect={(preset) =>
+                        queue.update(item.id, {
+                          settings: toSpeechSettings(preset),
+                        })
+                      }
+                    />
+                    <View style={styles.stepperRow}>
+                      <Text style={styles.settingLabel}>
+                        速度: {item.settings.rate.toFixed(1)}
+                      </Text>
+                      <View style={styles.buttonRow}>
+                        <TouchableOpacity
+                          style={styles.smallButton}
+                          onPress={() => changeRate(item, -SPEECH_VALUE_STEP)}
+                        >
+                          <Text style={styles.primaryButtonText}>-</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.smallButton}
+                          onPress={() => changeRate(item, SPEECH_VALUE_STEP)}
+                        >
+                          <Text style={styles.primaryButtonText}>+</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                    <Text style={styles.hint}>
+                      変更は次にこの項目を読むときから反映されます
+                    </Text>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#666",
+  },
+  navLinksContainer: {
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 8,
+  },
+  navLink: {
+    padding: 12,
+    backgroundColor: "#34C759",
+    borderRadius: 8,
+    alignItems: "center",
+    flex: 1,
+  },
+  navLinkText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  section: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#666",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+  },
+  stopButton: {
+    backgroundColor: "#ff3b30",
+  },
+  pauseButton: {
+    flex: 0,
+    backgroundColor: "#ff9500",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  secondaryButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  smallButton: {
+    backgroundColor: "#007AFF",
+    width: 36,
+    height: 32,
+    borderRadius: 6,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  chips: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#fafafa",
+  },
+  chipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  chipTextSelected: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  settingLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  item: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 8,
+  },
+  itemCurrent: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  itemText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  itemMeta: {
+    fontSize: 11,
+    color: "#666",
+    flexShrink: 1,
+  },
+  badges: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 2,
+  },
+  badge: {
+    fontSize: 11,
+    color: "#666",
+    backgroundColor: "#e0e0e0",
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: "hidden",
+  },
+  itemActions: {
+    marginLeft: 4,
+  },
+  iconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  iconButtonText: {
+    fontSize: 14,
+    color: "#007AFF",
+  },
+  disabledText: {
+    color: "#ccc",
+  },
+  itemFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  linkText: {
+    fontSize: 13,
+    color: "#007AFF",
+  },
+  deleteText: {
+    fontSize: 13,
+    color: "#ff3b30",
+  },
+  editor: {
+    gap: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+});
@@ -0,0 +1,579 @@
+import { Link, useLocalSearchParams } from "expo-router";
+import { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import HighlightedText from "@/components/speech/HighlightedText";
+import PresetChips from "@/components/speech/PresetChips";
+import { useAvailableVoices } from "@/hooks/useAvailableVoices";
+import { useLanguageOptions } from "@/hooks/useLanguageOptions";
+import { useReaderDocuments } from "@/hooks/useReaderDocuments";
+import { useSpeech } from "@/hooks/useSpeech";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import {
+  ensureReaderDocumentsLoaded,
+  loadReaderContent,
+  readingProgress,
+} from "@/lib/reader/library";
+import type { ReaderChapter, ReaderContent } from "@/lib/reader/types";
+import { chunkIndexAt, chunkText } from "@/lib/speech/chunks";
+import { applyAutoLanguage } from "@/lib/speech/languages";
+import { DEFAULT_SPEECH_SETTINGS } from "@/lib/speech/presets";
+
+// 長い章でも描画が重くならないよう、読んでいる文の前後だけを表示する
+const VISIBLE_BEFORE = 20;
+const VISIBLE_CHUNKS = 200;
+const EXCERPT_LENGTH = 40;
+
+const chapterIndexAt = (chapters: ReaderChapter[], position: number) => {
+  let index = 0;
+  chapters.forEach((chapter, i) => {
+    if (chapter.start <= position) {
+      index = i;
+    }
+  });
+  return index;
+};
+
+export default function ReaderScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { documents, updateDocument, addBookmark, deleteBookmark } =
+    useReaderDocuments();
+  const document = documents.find((d) => d.id === id);
+  const [content, setContent] = useState<ReaderContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // 読み上げていないときに章送りで表示している章
+  const [browsingChapter, setBrowsingChapter] = useState<number | null>(null);
+  const { presets, activePreset, selectPreset } = useSpeechPresets();
+  const { options: languageOptions } = useLanguageOptions();
+  const availableVoices = useAvailableVoices();
+  const speech = useSpeech();
+
+  useEffect(() => {
+    setIsLoading(true);
+    setLoadError(null);
+    // 一覧（読んだ位置・しおり）と本文の両方がそろってから表示する
+    Promise.all([ensureReaderDocumentsLoaded(), loadReaderContent(id)])
+      .then(([, loaded]) => setContent(loaded))
+      .catch((error) => {
+        console.error("Reader content load error:", error);
+        setLoadError(
+          error instanceof Error ? error.message : "文書を読み込めませんでした"
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  const chunks = useMemo(
+    () => (content ? chunkText(content.text) : []),
+    [content]
+  );
+
+  // 読み上げ中の位置はこの文書の本文を読んでいるときだけ使う
+  const isReadingThis =
+    speech.isActive && content !== null && speech.text === content.text;
+  const savedIndex = chunkIndexAt(chunks, document?.position ?? 0);
+  const currentIndex = isReadingThis ? speech.currentIndex : savedIndex;
+  const currentChunk = chunks[currentIndex];
+  const chapters = content?.chapters ?? [];
+  const currentChapter = currentChunk
+    ? chapterIndexAt(chapters, currentChunk.start)
+    : 0;
+  const shownChapter = isReadingThis
+    ? currentChapter
+    : (browsingChapter ?? currentChapter);
+
+  const chapterFirstIndex = (index: number) =>
+    chapters[index] ? chunkIndexAt(chunks, chapters[index].start) : 0;
+
+  const speakFrom = (index: number) => {
+    if (!content) {
+      return;
+    }
+    setBrowsingChapter(null);
+    const settings = activePreset ?? DEFAULT_SPEECH_SETTINGS;
+    const speechChunks = languageOptions.autoDetect
+      ? applyAutoLanguage(content.text, chunks, availableVoices, settings)
+      : chunks;
+    // 本文全体を 1 つの読み上げにするので、章の終わりでも止まらずに次の章へ進む
+    speech.speakChunks(content.text, speechChunks, settings, {
+      startIndex: index,
+      onError: (error) => {
+        Alert.alert("エラー", `音声合成エラー: ${error.message}`);
+      },
+      // 読み進めた位置を保存し、次に開いたときに続きから読めるようにする。
+      // 画面を離れても読み上げは続くので、画面ではなく読み上げから保存する
+      onChunkStart: (chunkIndex) => {
+        updateDocument(id, {
+          position: speechChunks[chunkIndex].start,
+          lastReadAt: Date.now(),
+        });
+      },
+    });
+  };
+
+  const moveChapter = (delta: number) => {
+    const next = shownChapter + delta;
+    if (next < 0 || next >= chapters.length) {
+      return;
+    }
+    if (isReadingThis) {
+      speakFrom(chapterFirstIndex(next));
+    } else {
+      setBrowsingChapter(next);
+    }
+  };
+
+  const handleAddBookmark = () => {
+    if (!currentChunk) {
+      return;
+    }
+    addBookmark(
+      id,
+      currentChunk.start,
+      currentChunk.text.slice(0, EXCERPT_LENGTH)
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!document || !content) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>
+          {loadError
+            ? `文書を読み込めませんでした: ${loadError}`
+            : "文書が見つかりません"}
+        </Text>
+        <Link href="/reader" asChild>
+          <TouchableOpacity style={[styles.navLink, styles.navLinkSingle]}>
+            <Text style={styles.navLinkText}>← 文書一覧</Text>
+          </TouchableOpacity>
+        </Link>
+      </SafeAreaView>
+    );
+  }
+
+  // 表示する範囲（章の中の、読んでいる文の前後）
+  const chapterStart = chapterFirstIndex(shownChapter);
+  const chapterEnd =
+    shownChapter + 1 < chapters.length
+      ? chapterFirstIndex(shownChapter + 1)
+      : chunks.length;
+  const focusIndex =
+    currentIndex >= chapterStart && currentIndex < chapterEnd
+      ? currentIndex
+      : chapterStart;
+  const visibleStart = Math.max(chapterStart, focusIndex - VISIBLE_BEFORE);
+  const visibleEnd = Math.min(chapterEnd, visibleStart + VISIBLE_CHUNKS);
+  const visibleChunks = chunks.slice(visibleStart, visibleEnd);
+  const base = visibleChunks[0]?.start ?? 0;
+  const visibleText = content.text.slice(
+    base,
+    visibleChunks[visibleChunks.length - 1]?.end ?? base
+  );
+  const boundary =
+    isReadingThis && speech.boundary
+      ? {
+          start: speech.boundary.start - base,
+          end: speech.boundary.end - base,
+        }
+      : null;
+
+  const progress = readingProgress(
+    currentChunk?.start ?? 0,
+    content.text.length
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* タイトルバーと進み具合 */}
+        <View style={styles.header}>
+          <Text style={styles.title} numberOfLines={2}>
+            {document.title}
+          </Text>
+          <Text style={styles.subtitle}>
+            第{currentChapter + 1}章 / 全{chapters.length}章 ・ {progress}%
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress}%` }]} />
+          </View>
+          <View style={styles.navLinksContainer}>
+            <Link href="/reader" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>← 文書一覧</Text>
+              </TouchableOpacity>
+            </Link>
+          </View>
+        </View>
+
+        {/* 本文 */}
+        <View style={styles.section}>
+          <View style={styles.chapterNav}>
+            <TouchableOpacity
+              onPress={() => moveChapter(-1)}
+              disabled={shownChapter === 0}
+            >
+              <Text
+                style={[
+                  styles.chapterNavText,
+                  shownChapter === 0 && styles.disabledText,
+                ]}
+              >
+                ◀ 前の章
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.chapterTitle} numberOfLines={1}>
+              {chapters[shownChapter]?.title}
+            </Text>
+            <TouchableOpacity
+              onPress={() => moveChapter(1)}
+              disabled={shownChapter >= chapters.length - 1}
+            >
+              <Text
+                style={[
+                  styles.chapterNavText,
+                  shownChapter >= chapters.length - 1 && styles.disabledText,
+                ]}
+              >
+                次の章 ▶
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {visibleStart > chapterStart && <Text style={styles.hint}>…</Text>}
+          <HighlightedText
+            text={visibleText}
+            chunks={visibleChunks.map((chunk) => ({
+              ...chunk,
+              start: chunk.start - base,
+              end: chunk.end - base,
+            }))}
+            currentIndex={currentIndex - visibleStart}
+            boundary={boundary}
+            onPressChunk={(index) => speakFrom(visibleStart + index)}
+            style={styles.bodyText}
+          />
+          {visibleEnd < chapterEnd && <Text style={styles.hint}>…</Text>}
+          <Text style={styles.hint}>文をタップするとそこから読み上げます</Text>
+        </View>
+
+        {/* 読み上げコントロール */}
+        <View style={styles.section}>
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.playButton]}
+              onPress={() => {
+                if (!isReadingThis) {
+                  speakFrom(
+                    browsingChapter === null
+                      ? savedIndex
+                      : chapterFirstIndex(browsingChapter)
+                  );
+                } else if (speech.isPaused) {
+                  speech.resume();
+                } else {
+                  speech.pause();
+                }
+              }}
+            >
+              <Text style={styles.controlButtonText}>
+                {!isReadingThis
+                  ? browsingChapter === null && document.position > 0
+                    ? "▶ 続きから読む"
+                    : "▶ この章から読む"
+                  : speech.isPaused
+                    ? "再開"
+                    : "一時停止"}
+              </Text>
+            </TouchableOpacity>
+            {isReadingThis && (
+              <TouchableOpacity
+                style={[styles.controlButton, styles.stopButton]}
+                onPress={speech.stop}
+              >
+                <Text style={styles.controlButtonText}>停止</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {isReadingThis && (
+            <View style={styles.controls}>
+              <TouchableOpacity
+                style={[styles.controlButton, styles.secondaryButton]}
+                onPress={speech.previous}
+              >
+                <Text style={styles.secondaryButtonText}>⏮ 前の文</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.controlButton, styles.secondaryButton]}
+                onPress={speech.next}
+              >
+                <Text style={styles.secondaryButtonText}>次の文 ⏭</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {presets.length > 0 && (
+            <PresetChips
+              presets={presets}
+              selectedId={activePreset?.id ?? null}
+              onSelect={(preset) => selectPreset(preset.id)}
+            />
+          )}
+        </View>
+
+        {/* しおり */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.label}>
+              しおり ({document.bookmarks.length}件)
+            </Text>
+            <TouchableOpacity onPress={handleAddBookmark}>
+              <Text style={styles.linkText}>🔖 今の文に挟む</Text>
+            </TouchableOpacity>
+          </View>
+          {document.bookmarks.map((bookmark) => (
+            <TouchableOpacity
+              key={bookmark.id}
+              style={styles.listItem}
+              onPress={() => speakFrom(chunkIndexAt(chunks, bookmark.position))}
+            >
+              <View style={styles.listItemInfo}>
+                <Text style={styles.listItemText} numberOfLines={1}>
+                  {bookmark.excerpt}
+                </Text>
+                <Text style={styles.listItemMeta}>
+                  {chapters[chapterIndexAt(chapters, bookmark.position)]?.title}
+                  {" ・ "}
+                  {new Date(bookmark.createdAt).toLocaleString()}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => deleteBookmark(id, bookmark.id)}
+              >
+                <Text style={styles.deleteText}>削除</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* 目次 */}
+        <View style={styles.section}>
+          <Text style={styles.label}>目次</Text>
+          {chapters.map((chapter, index) => (
+            <TouchableOpacity
+              key={chapter.start}
+              style={[
+                styles.listItem,
+                index === currentChapter && styles.listItemCurrent,
+              ]}
+              onPress={() => speakFrom(chapterFirstIndex(index))}
+            >
+              <Text style={styles.listItemText} numberOfLines={1}>
+                {index + 1}. {chapter.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 16,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: "#007AFF",
+  },
+  navLinksContainer: {
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 8,
+  },
+  navLink: {
+    padding: 12,
+    backgroundColor: "#34C759",
+    borderRadius: 8,
+    alignItems: "center",
+    flex: 1,
+  },
+  navLinkSingle: {
+    flex: 0,
+    paddingHorizontal: 24,
+  },
+  navLinkText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  section: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#666",
+  },
+  linkText: {
+    fontSize: 14,
+    color: "#007AFF",
+  },
+  chapterNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  chapterNavText: {
+    fontSize: 13,
+    color: "#007AFF",
+  },
+  disabledText: {
+    color: "#ccc",
+  },
+  chapterTitle: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  bodyText: {
+    fontSize: 17,
+    lineHeight: 28,
+    color: "#333",
+  },
+  controls: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  controlButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  playButton: {
+    backgroundColor: "#007AFF",
+  },
+  stopButton: {
+    backgroundColor: "#ff3b30",
+  },
+  controlButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  secondaryButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  listItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  listItemCurrent: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  listItemInfo: {
+    flex: 1,
+  },
+  listItemText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  listItemMeta: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  iconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  deleteText: {
+    fontSize: 14,
+    color: "#ff3b30",
+  },
+});
@@ -0,0 +1,280 @@
+import { Link, router } from "expo-router";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useReaderDocuments } from "@/hooks/useReaderDocuments";
+import { readingProgress } from "@/lib/reader/library";
+import type { ReaderDocument } from "@/lib/reader/types";
+
+const progressOf = (document: ReaderDocument) =>
+  readingProgress(document.position, document.length);
+
+export default function ReaderLibraryScreen() {
+  const { documents, importDocument, deleteDocument } = useReaderDocuments();
+  const [isImporting, setIsImporting] = useState(false);
+
+  // 最近読んだ（または取り込んだ）文書を上に並べる
+  const sortedDocuments = [...documents].sort(
+    (a, b) => (b.lastReadAt ?? b.importedAt) - (a.lastReadAt ?? a.importedAt)
+  );
+
+  const openDocument = (id: string) => {
+    router.push({ pathname: "/reader/[id]", params: { id } });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const imported = await importDocument();
+      if (imported) {
+        openDocument(imported.id);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "ファイルを読み込めませんでした";
+      Alert.alert("エラー", errorMessage);
+      console.error("Document import error:", error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const confirmDelete = (document: ReaderDocument) => {
+    Alert.alert(
+      "文書を削除",
+      `「${document.title}」を削除しますか？読んだ位置としおりも削除されます`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "削除",
+          style: "destructive",
+          onPress: () => deleteDocument(document.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* タイトルバー */}
+        <View style={styles.header}>
+          <Text style={styles.title}>リーダー</Text>
+          <Text style={styles.subtitle}>
+            テキストや Markdown のファイルを章ごとに読み上げます
+          </Text>
+          <View style={styles.navLinksContainer}>
+            <Link href="/" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>← ホーム</Text>
+              </TouchableOpacity>
+            </Link>
+            <Link href="/speech" asChild>
+              <TouchableOpacity style={styles.navLink}>
+                <Text style={styles.navLinkText}>📢 TTS</Text>
+              </TouchableOpacity>
+            </Link>
+          </View>
+        </View>
+
+        {/* 取り込み */}
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={[
+              styles.importButton,
+              isImporting && styles.importButtonDisabled,
+            ]}
+            onPress={handleImport}
+            disabled={isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.importButtonText}>📂 ファイルを取り込む</Text>
+            )}
+          </TouchableOpacity>
+          <Text style={styles.hint}>
+            .txt と .md に対応しています。Markdown は見出しで、テキストは「第1章」のような行で章に分けます
+          </Text>
+        </View>
+
+        {/* 文書の一覧 */}
+        <View style={styles.section}>
+          <Text style={styles.label}>文書 ({documents.length}件)</Text>
+          {documents.length === 0 && (
+            <Text style={styles.emptyText}>まだ取り込んだ文書がありません</Text>
+          )}
+          {sortedDocuments.map((document) => (
+            <TouchableOpacity
+              key={document.id}
+              style={styles.document}
+              onPress={() => openDocument(document.id)}
+            >
+              <View style={styles.documentInfo}>
+                <Text style={styles.documentTitle} numberOfLines={1}>
+                  {document.title}
+                </Text>
+                <Text style={styles.documentMeta}>
+                  {document.fileName} ・ {document.chapterCount}章 ・{" "}
+                  {document.length.toLocaleString()}文字
+                  {document.bookmarks.length > 0 &&
+                    ` ・ しおり${document.bookmarks.length}件`}
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${progressOf(document)}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.documentMeta}>
+                  {document.lastReadAt
+                    ? `${progressOf(document)}% ・ ${new Date(
+                        document.lastReadAt
+                      ).toLocaleString()} に読みました`
+                    : "未読"}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => confirmDelete(document)}
+              >
+                <Text style={styles.deleteText}>削除</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 10,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#666",
+  },
+  navLinksContainer: {
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 8,
+  },
+  navLink: {
+    padding: 12,
+    backgroundColor: "#34C759",
+    borderRadius: 8,
+    alignItems: "center",
+    flex: 1,
+  },
+  navLinkText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  section: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#666",
+  },
+  importButton: {
+    backgroundColor: "#007AFF",
+    padding: 14,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  importButtonDisabled: {
+    backgroundColor: "#999",
+  },
+  importButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  document: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#fafafa",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  documentInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  documentTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  documentMeta: {
+    fontSize: 12,
+    color: "#666",
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: "#007AFF",
+  },
+  iconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  deleteText: {
+    fontSize: 14,
+    color: "#ff3b30",
+  },
+});
@@ -1,105 +1,193 @@
-import { Link } from "expo-router";
+import { Link, useLocalSearchParams } from "expo-router";
 import * as Speech from "expo-speech";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
     Alert,
-    Platform,
     SafeAreaView,
     ScrollView,
     StyleSheet,
+    Switch,
     Text,
     TextInput,
     TouchableOpacity,
     View,
 } from "react-native";
 
-type Voice = {
-  identifier: string;
-  name: string;
-  language: string;
-  quality?: string;
-};
+import HighlightedText from "@/components/speech/HighlightedText";
+import LanguagePicker from "@/components/speech/LanguagePicker";
+import MarkupPreview from "@/components/speech/MarkupPreview";
+import PresetChips from "@/components/speech/PresetChips";
+import VoiceBrowser from "@/components/speech/VoiceBrowser";
+import { useAvailableVoices } from "@/hooks/useAvailableVoices";
+import { useFavoriteVoices } from "@/hooks/useFavoriteVoices";
+import { useLanguageOptions } from "@/hooks/useLanguageOptions";
+import { useReadingQueue } from "@/hooks/useReadingQueue";
+import { useSpeechPresets } from "@/hooks/useSpeechPresets";
+import { useSpeech } from "@/hooks/useSpeech";
+import { maxChunkLength } from "@/lib/speech/chunks";
+import {
+  applyAutoLanguage,
+  baseLanguageOf,
+  languageLabel,
+  listVoiceLanguages,
+} from "@/lib/speech/languages";
+import { compileMarkup, MARKUP_HELP } from "@/lib/speech/markup";
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  findMatchingPreset,
+  roundSpeechValue,
+  SPEECH_VALUE_STEP,
+  type SpeechSettings,
+} from "@/lib/speech/presets";
 
 export default function SpeechScreen() {
-  const [text, setText] = useState("こんにちは、これは音声合成のテストです。");
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [availableVoices, setAvailableVoices] = useState<Voice[]>([]);
+  // チャットの「TTS で開く」から渡されたテキスト
+  const params = useLocalSearchParams<{ text?: string }>();
+  const [text, setText] = useState(
+    params.text || "こんにちは、これは音声合成のテストです。"
+  );
+  const availableVoices = useAvailableVoices();
   const [selectedVoice, setSelectedVoice] = useState<string | undefined>();
-  const [language, setLanguage] = useState("ja-JP");
-  const [pitch, setPitch] = useState(1.0);
-  const [rate, setRate] = useState(1.0);
+  const [language, setLanguage] = useState(DEFAULT_SPEECH_SETTINGS.language);
+  const [pitch, setPitch] = useState(DEFAULT_SPEECH_SETTINGS.pitch);
+  const [rate, setRate] = useState(DEFAULT_SPEECH_SETTINGS.rate);
+  const { favorites, toggleFavorite } = useFavoriteVoices();
+  const { options: languageOptions, updateOptions: updateLanguageOptions } =
+    useLanguageOptions();
+  const {
+    presets,
+    activePreset,
+    isLoaded: isPresetsLoaded,
+    savePreset,
+    deletePreset,
+    selectPreset,
+  } = useSpeechPresets();
+  const presetAppliedRef = useRef(false);
+  const speech = useSpeech();
+  const queue = useReadingQueue();
+  const { isSpeaking, isPaused } = speech;
+  // リーダーなど他の画面で始めた読み上げの本文はここには表示しない
+  const isSpeakingText = speech.isActive && speech.text === text;
+
+  const settings: SpeechSettings = {
+    voice: selectedVoice,
+    language,
+    pitch,
+    rate,
+  };
+  const matchingPreset = findMatchingPreset(presets, settings);
 
-  // 利用可能な音声を取得
+  const applySettings = (next: SpeechSettings) => {
+    setSelectedVoice(next.voice);
+    setLanguage(next.language);
+    setPitch(next.pitch);
+    setRate(next.rate);
+  };
+
+  // 最後に選んだプリセットを画面を開いたときに一度だけ適用する
   useEffect(() => {
-    (async () => {
-      try {
-        const voices = await Speech.getAvailableVoicesAsync();
-        setAvailableVoices(voices);
-        // 日本語の音声をデフォルトに設定
-        const japaneseVoice = voices.find(
-          (v) => v.language.startsWith("ja") || v.language === "ja-JP"
-        );
-        if (japaneseVoice) {
-          setSelectedVoice(japaneseVoice.identifier);
-        }
-      } catch (error) {
-        console.error("Error loading voices:", error);
-      }
-    })();
-  }, []);
+    if (!isPresetsLoaded || presetAppliedRef.current) {
+      return;
+    }
+    presetAppliedRef.current = true;
+    if (activePreset) {
+      setSelectedVoice(activePreset.voice);
+      setLanguage(activePreset.language);
+      setPitch(activePreset.pitch);
+      setRate(activePreset.rate);
+    }
+  }, [isPresetsLoaded, activePreset]);
 
-  // 音声合成の状態を監視
+  // 画面を開いたまま別のメッセージから開き直した場合もテキストを差し替える
   useEffect(() => {
-    const checkSpeaking = async () => {
-      const speaking = await Speech.isSpeakingAsync();
-      setIsSpeaking(speaking);
-    };
+    if (params.text) {
+      setText(params.text);
+    }
+  }, [params.text]);
 
-    const interval = setInterval(checkSpeaking, 500);
-    return () => clearInterval(interval);
-  }, []);
+  const voiceLanguages = useMemo(
+    () => listVoiceLanguages(availableVoices),
+    [availableVoices]
+  );
 
-  const handleSpeak = () => {
+  const handleSelectLanguage = (next: string) => {
+    setLanguage(next);
+    // 選んでいる音声が別の言語なら外し、言語コードから既定の音声を使う
+    const voice = availableVoices.find((v) => v.identifier === selectedVoice);
+    if (voice && voice.language !== next) {
+      setSelectedVoice(undefined);
+    }
+  };
+
+  // [pause 800ms] などのタグを解釈し、文ごとの設定に分ける
+  const compiled = useMemo(
+    () => compileMarkup(text, availableVoices),
+    [text, availableVoices]
+  );
+  const hasMarkup = compiled.hasTags;
+
+  const showSpeechError = (error: Error) => {
+    Alert.alert("エラー", `音声合成エラー: ${error.message}`);
+  };
+
+  /** 読み上げられるテキストなら文ごとのチャンクを、そうでなければ null を返す */
+  const prepareChunks = () => {
     if (!text.trim()) {
       Alert.alert("エラー", "テキストを入力してください");
-      return;
+      return null;
     }
 
-    Speech.speak(text, {
-      language: language,
-      pitch: pitch,
-      rate: rate,
-      voice: selectedVoice,
-      onStart: () => {
-        setIsSpeaking(true);
-      },
-      onDone: () => {
-        setIsSpeaking(false);
-      },
-      onError: (error) => {
-        Alert.alert("エラー", `音声合成エラー: ${error.message}`);
-        setIsSpeaking(false);
-      },
-    });
-  };
+    if (compiled.errors.length > 0) {
+      Alert.alert(
+        "エラー",
+        `マークアップに誤りが ${compiled.errors.length} 件あります。プレビューを確認してください`
+      );
+      return null;
+    }
 
-  const handleStop = async () => {
-    await Speech.stop();
-    setIsSpeaking(false);
+    // 自動判定がオンなら、選んだ言語と違う文はその言語の音声で読む
+    return languageOptions.autoDetect
+      ? applyAutoLanguage(text, compiled.chunks, availableVoices, settings)
+      : compiled.chunks;
   };
 
-  const handlePause = async () => {
-    if (Platform.OS === "ios") {
-      await Speech.pause();
-      setIsSpeaking(false);
+  const handleSpeak = () => {
+    const chunks = prepareChunks();
+    if (!chunks) {
+      return;
     }
+
+    // 長いテキストも文ごとに分けて続けて読み上げる
+    speech.speakChunks(text, chunks, settings, {
+      onError: showSpeechError,
+    });
   };
 
-  const handleResume = async () => {
-    if (Platform.OS === "ios") {
-      await Speech.resume();
-      setIsSpeaking(true);
+  const handleAddToQueue = () => {
+    const chunks = prepareChunks();
+    if (!chunks) {
+      return;
     }
+
+    // タグを含む場合や言語の自動判定で文ごとに設定を変えた場合は、
+    // タグを読み上げないよう分けた結果ごと保存する
+    const hasChunkSettings =
+      compiled.hasTags ||
+      chunks.some((c) => c.settings || c.pauseBeforeMs || c.emphasis);
+    queue.add(text, settings, "speech", {
+      chunks: hasChunkSettings ? chunks : undefined,
+    });
+    Alert.alert(
+      "読み上げキュー",
+      `${queue.items.length + 1}件目に追加しました`
+    );
+  };
+
+  const handleSpeakFrom = (index: number) => {
+    speech.speakChunks(speech.text, speech.chunks, settings, {
+      startIndex: index,
+      onError: showSpeechError,
+    });
   };
 
   return (
@@ -120,35 +208,115 @@ export default function SpeechScreen() {
                 <Text style={styles.navLinkText}>🤖 Gemini</Text>
               </TouchableOpacity>
             </Link>
+            <Link href="/lexicon" asChild>
+              <TouchableOpacity style={[styles.navLink, styles.navLinkHalf]}>
+                <Text style={styles.navLinkText}>📖 読み辞書</Text>
+              </TouchableOpacity>
+            </Link>
+            <Link href="/queue" asChild>
+              <TouchableOpacity style={[styles.navLink, styles.navLinkHalf]}>
+                <Text style={styles.navLinkText}>📋 キュー</Text>
+              </TouchableOpacity>
+            </Link>
           </View>
         </View>
 
-        {/* テキスト入力 */}
+        {/* テキスト入力（読み上げ中は読んでいる箇所を強調表示） */}
         <View style={styles.section}>
           <Text style={styles.label}>テキスト</Text>
-          <TextInput
-            style={styles.textInput}
-            multiline
-            numberOfLines={4}
-            value={text}
-            onChangeText={setText}
-            placeholder="音声に変換するテキストを入力してください"
-            placeholderTextColor="#999"
-          />
+          {isSpeakingText ? (
+            <>
+              <HighlightedText
+                text={speech.text}
+                chunks={speech.chunks}
+                currentIndex={speech.currentIndex}
+                boundary={speech.boundary}
+                onPressChunk={handleSpeakFrom}
+                style={[styles.textInput, styles.highlightedText]}
+              />
+              <Text style={styles.hint}>
+                文をタップするとそこから読み上げます
+              </Text>
+            </>
+          ) : (
+            <TextInput
+              style={styles.textInput}
+              multiline
+              numberOfLines={4}
+              value={text}
+              onChangeText={setText}
+              placeholder="音声に変換するテキストを入力してください"
+              placeholderTextColor="#999"
+            />
+          )}
+          <Text style={styles.hint}>{MARKUP_HELP}</Text>
         </View>
 
-        {/* 言語設定 */}
+        {/* マークアップのプレビュー */}
+        {hasMarkup && !isSpeakingText && (
+          <View style={styles.section}>
+            <Text style={styles.label}>
+              読み上げの分割（{compiled.chunks.length}件）
+            </Text>
+            <MarkupPreview
+              source={text}
+              compiled={compiled}
+              voices={availableVoices}
+            />
+          </View>
+        )}
+
+        {/* プリセット */}
         <View style={styles.section}>
-          <Text style={styles.label}>言語コード</Text>
-          <TextInput
-            style={styles.smallInput}
-            value={language}
-            onChangeText={setLanguage}
-            placeholder="ja-JP, en-US, etc."
-            placeholderTextColor="#999"
+          <Text style={styles.label}>プリセット</Text>
+          <PresetChips
+            presets={presets}
+            selectedId={matchingPreset?.id ?? null}
+            onSelect={(preset) => {
+              applySettings(preset);
+              selectPreset(preset.id);
+            }}
+            onDelete={(preset) => deletePreset(preset.id)}
+            onSave={(name) => savePreset(name, settings)}
           />
         </View>
 
+        {/* 言語設定（音声一覧を取得できなければ言語コードを直接入力する） */}
+        <View style={styles.section}>
+          <Text style={styles.label}>言語</Text>
+          {voiceLanguages.length > 0 ? (
+            <LanguagePicker
+              languages={voiceLanguages}
+              value={language}
+              onChange={handleSelectLanguage}
+            />
+          ) : (
+            <TextInput
+              style={styles.smallInput}
+              value={language}
+              onChangeText={setLanguage}
+              placeholder="ja-JP, en-US, etc."
+              placeholderTextColor="#999"
+            />
+          )}
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>文ごとに言語を自動判定</Text>
+            <Switch
+              value={languageOptions.autoDetect}
+              onValueChange={(autoDetect) =>
+                updateLanguageOptions({ autoDetect })
+              }
+            />
+          </View>
+          {languageOptions.autoDetect && (
+            <Text style={styles.hint}>
+              文字の種類から文ごとに言語を判定し、
+              {languageLabel(baseLanguageOf(language))}
+              以外の文はその言語の音声で読み上げます（マークアップで言語や音声を指定した文を除く）
+            </Text>
+          )}
+        </View>
+
         {/* 音声設定 */}
         <View style={styles.section}>
           <Text style={styles.label}>音声設定</Text>
@@ -158,13 +326,17 @@ export default function SpeechScreen() {
               <View style={styles.buttonRow}>
                 <TouchableOpacity
                   style={styles.smallButton}
-                  onPress={() => setPitch(Math.max(0.5, pitch - 0.1))}
+                  onPress={() =>
+                    setPitch(roundSpeechValue(pitch - SPEECH_VALUE_STEP))
+                  }
                 >
                   <Text style={styles.buttonText}>-</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.smallButton}
-                  onPress={() => setPitch(Math.min(2.0, pitch + 0.1))}
+                  onPress={() =>
+                    setPitch(roundSpeechValue(pitch + SPEECH_VALUE_STEP))
+                  }
                 >
                   <Text style={styles.buttonText}>+</Text>
                 </TouchableOpacity>
@@ -175,13 +347,17 @@ export default function SpeechScreen() {
               <View style={styles.buttonRow}>
                 <TouchableOpacity
                   style={styles.smallButton}
-                  onPress={() => setRate(Math.max(0.5, rate - 0.1))}
+                  onPress={() =>
+                    setRate(roundSpeechValue(rate - SPEECH_VALUE_STEP))
+                  }
                 >
                   <Text style={styles.buttonText}>-</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.smallButton}
-                  onPress={() => setRate(Math.min(2.0, rate + 0.1))}
+                  onPress={() =>
+                    setRate(roundSpeechValue(rate + SPEECH_VALUE_STEP))
+                  }
                 >
                   <Text style={styles.buttonText}>+</Text>
                 </TouchableOpacity>
@@ -194,24 +370,18 @@ export default function SpeechScreen() {
         {availableVoices.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.label}>利用可能な音声 ({availableVoices.length}件)</Text>
-            <ScrollView style={styles.voicesList} nestedScrollEnabled>
-              {availableVoices
-                .filter((v) => v.language.startsWith(language.split("-")[0]))
-                .slice(0, 10)
-                .map((voice) => (
-                  <TouchableOpacity
-                    key={voice.identifier}
-                    style={[
-                      styles.voiceItem,
-                      selectedVoice === voice.identifier && styles.voiceItemSelected,
-                    ]}
-                    onPress={() => setSelectedVoice(voice.identifier)}
-                  >
-                    <Text style={styles.voiceName}>{voice.name}</Text>
-                    <Text style={styles.voiceLanguage}>{voice.language}</Text>
-                  </TouchableOpacity>
-                ))}
-            </ScrollView>
+            <VoiceBrowser
+              voices={availableVoices}
+              selectedVoice={selectedVoice}
+              preferredLanguage={language}
+              favorites={favorites}
+              onSelect={(voice) => {
+                setSelectedVoice(voice.identifier);
+                // 音声に合わせて言語コードも切り替える
+                setLanguage(voice.language);
+              }}
+              onToggleFavorite={toggleFavorite}
+            />
           </View>
         )}
 
@@ -226,30 +396,68 @@ export default function SpeechScreen() {
               {isSpeaking ? "再生中..." : "音声合成"}
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.controlButton, styles.queueButton]}
+            onPress={handleAddToQueue}
+          >
+            <Text style={styles.queueButtonText}>＋ 読み上げキューに追加</Text>
+          </TouchableOpacity>
 
-          <View style={styles.buttonRow}>
-            {Platform.OS === "ios" && (
-              <>
+          {/* 読み上げ中のチャンク */}
+          {speech.isActive && speech.currentIndex >= 0 && (
+            <View style={styles.progress}>
+              <Text style={styles.progressLabel}>
+                チャンク {speech.currentIndex + 1} / {speech.chunks.length}
+              </Text>
+              <View style={styles.progressBar}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${((speech.currentIndex + 1) / speech.chunks.length) * 100}%`,
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.progressText} numberOfLines={3}>
+                {speech.chunks[speech.currentIndex]?.text}
+              </Text>
+              <View style={styles.buttonRow}>
                 <TouchableOpacity
-                  style={[styles.controlButton, styles.secondaryButton]}
-                  onPress={handlePause}
-                  disabled={!isSpeaking}
+                  style={styles.skipButton}
+                  onPress={speech.previous}
                 >
-                  <Text style={styles.controlButtonText}>一時停止</Text>
+                  <Text style={styles.skipButtonText}>⏮ 前の文</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
-                  style={[styles.controlButton, styles.secondaryButton]}
-                  onPress={handleResume}
-                  disabled={isSpeaking}
+                  style={styles.skipButton}
+                  onPress={speech.next}
                 >
-                  <Text style={styles.controlButtonText}>再開</Text>
+                  <Text style={styles.skipButtonText}>次の文 ⏭</Text>
                 </TouchableOpacity>
-              </>
-            )}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.buttonRow}>
             <TouchableOpacity
-              style={[styles.controlButton, styles.stopButton]}
-              onPress={handleStop}
+              style={[styles.controlButton, styles.secondaryButton]}
+              onPress={speech.pause}
               disabled={!isSpeaking}
+            >
+              <Text style={styles.controlButtonText}>一時停止</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.secondaryButton]}
+              onPress={speech.resume}
+              disabled={!isPaused}
+            >
+              <Text style={styles.controlButtonText}>再開</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.stopButton]}
+              onPress={speech.stop}
+              disabled={!speech.isActive}
             >
               <Text style={styles.controlButtonText}>停止</Text>
             </TouchableOpacity>
@@ -260,9 +468,11 @@ export default function SpeechScreen() {
         <View style={styles.infoSection}>
           <Text style={styles.infoText}>
             最大文字数: {Speech.maxSpeechInputLength.toLocaleString()}
+            （{maxChunkLength().toLocaleString()} 文字以内の文ごとに分けて読み上げます）
           </Text>
           <Text style={styles.infoText}>
-            現在の状態: {isSpeaking ? "再生中" : "停止中"}
+            現在の状態:{" "}
+            {isPaused ? "一時停止中" : isSpeaking ? "再生中" : "停止中"}
           </Text>
         </View>
       </ScrollView>
@@ -319,6 +529,15 @@ const styles = StyleSheet.create({
     textAlignVertical: "top",
     backgroundColor: "#fafafa",
   },
+  highlightedText: {
+    lineHeight: 24,
+    color: "#333",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 6,
+  },
   smallInput: {
     borderWidth: 1,
     borderColor: "#ddd",
@@ -344,6 +563,16 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: 8,
   },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: "#666",
+  },
   smallButton: {
     backgroundColor: "#007AFF",
     paddingHorizontal: 16,
@@ -357,32 +586,6 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "600",
   },
-  voicesList: {
-    maxHeight: 200,
-    marginTop: 8,
-  },
-  voiceItem: {
-    padding: 12,
-    borderWidth: 1,
-    borderColor: "#ddd",
-    borderRadius: 8,
-    marginBottom: 8,
-    backgroundColor: "#fafafa",
-  },
-  voiceItemSelected: {
-    backgroundColor: "#E3F2FD",
-    borderColor: "#007AFF",
-  },
-  voiceName: {
-    fontSize: 14,
-    fontWeight: "600",
-    color: "#333",
-    marginBottom: 4,
-  },
-  voiceLanguage: {
-    fontSize: 12,
-    color: "#666",
-  },
   controls: {
     padding: 16,
     marginTop: 12,
@@ -400,6 +603,58 @@ const styles = StyleSheet.create({
     backgroundColor: "#0051D5",
     opacity: 0.7,
   },
+  queueButton: {
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    backgroundColor: "#fff",
+  },
+  queueButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  progress: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  progressLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+  },
+  progressBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#e0e0e0",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#007AFF",
+  },
+  progressText: {
+    fontSize: 14,
+    color: "#666",
+    lineHeight: 20,
+  },
+  skipButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    alignItems: "center",
+  },
+  skipButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   secondaryButton: {
     backgroundColor: "#34C759",
     flex: 1,
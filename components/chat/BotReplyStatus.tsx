@@ -0,0 +1,112 @@
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import type { BotReplyState } from "@/hooks/useBotReply";
+
+type Props = {
+  state: BotReplyState;
+  onRetry: () => void;
+  onDismiss: () => void;
+};
+
+/** メッセージリストの末尾に、録音 1 件分の Bot の返答待ち・エラーを表示する */
+export default function BotReplyStatus({ state, onRetry, onDismiss }: Props) {
+  if (state.status === "pending") {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>Bot</Text>
+        <View style={styles.pendingBubble}>
+          <ActivityIndicator size="small" color="#666" />
+          <Text style={styles.pendingText}>返答を考えています...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>Bot</Text>
+        <View style={styles.errorBubble}>
+          <Text style={styles.errorText}>⚠️ {state.message}</Text>
+          <View style={styles.errorActions}>
+            <TouchableOpacity onPress={onRetry} style={styles.retryButton}>
+              <Text style={styles.retryButtonText}>再試行</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onDismiss}>
+              <Text style={styles.dismissText}>閉じる</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  label: {
+    fontSize: 12,
+    color: "#999",
+    marginHorizontal: 8,
+  },
+  pendingBubble: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 18,
+    backgroundColor: "#E5E5EA",
+  },
+  pendingText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  errorBubble: {
+    flexShrink: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 18,
+    backgroundColor: "#FFEBEE",
+    borderWidth: 1,
+    borderColor: "#ff3b30",
+    maxWidth: "75%",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#c62828",
+  },
+  errorActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 8,
+  },
+  retryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    backgroundColor: "#ff3b30",
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  dismissText: {
+    fontSize: 12,
+    color: "#666",
+  },
+});
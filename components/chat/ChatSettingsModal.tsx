@@ -0,0 +1,559 @@
+import {
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import {
+  BIT_RATE_OPTIONS,
+  SAMPLE_RATE_OPTIONS,
+  canTrimRecordingProfile,
+  estimateBytesPerMinute,
+  formatBytes,
+  isRecordingProfileSupported,
+  listRecordingProfiles,
+  resolveRecordingProfile,
+  type CustomRecordingProfile,
+  type RecordingFormat,
+} from "@/lib/audio/recordingProfiles";
+import { clampThresholdDb } from "@/lib/audio/silence";
+import { TRANSCRIPTION_PROVIDERS } from "@/lib/transcription";
+import {
+  MAX_RECORDING_OPTIONS,
+  SILENCE_DURATION_OPTIONS,
+  type ChatSettings,
+  type RecordMode,
+} from "@/lib/chat/settings";
+
+type Props = {
+  visible: boolean;
+  settings: ChatSettings;
+  onChange: (changes: Partial<ChatSettings>) => void;
+  onClose: () => void;
+  isCalibrating: boolean;
+  /** 周囲の音を測ってしきい値を設定する */
+  onCalibrate: () => void;
+};
+
+const THRESHOLD_STEP_DB = 5;
+
+const RECORD_MODE_OPTIONS: { value: RecordMode; title: string; description: string }[] = [
+  {
+    value: "hold",
+    title: "長押しで録音",
+    description: "離して送信、左へスライドで破棄、上へスライドでロック",
+  },
+  {
+    value: "tap",
+    title: "タップで開始／停止",
+    description: "タップで録音を開始し、もう一度タップで送信",
+  },
+];
+
+const FORMAT_OPTIONS: { value: RecordingFormat; label: string }[] = [
+  { value: "aac", label: "AAC (.m4a)" },
+  { value: "pcm", label: "WAV (PCM)" },
+];
+
+const CHANNEL_OPTIONS = [1, 2];
+
+type ChipRowProps<T> = {
+  label: string;
+  options: T[];
+  value: T;
+  format: (value: T) => string;
+  onSelect: (value: T) => void;
+};
+
+function ChipRow<T extends string | number>({
+  label,
+  options,
+  value,
+  format,
+  onSelect,
+}: ChipRowProps<T>) {
+  return (
+    <View style={styles.chipRow}>
+      <Text style={styles.chipLabel}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === value && styles.chipSelected]}
+            onPress={() => onSelect(option)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                option === value && styles.chipTextSelected,
+              ]}
+            >
+              {format(option)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function ChatSettingsModal({
+  visible,
+  settings,
+  onChange,
+  onClose,
+  isCalibrating,
+  onCalibrate,
+}: Props) {
+  const custom = settings.customRecordingProfile;
+  const changeCustom = (changes: Partial<CustomRecordingProfile>) => {
+    onChange({ customRecordingProfile: { ...custom, ...changes } });
+  };
+  // 先頭の無音を削れるかは実際に録音に使うプロファイルの形式で決まる
+  const canTrimLeadingSilence = canTrimRecordingProfile(
+    resolveRecordingProfile(settings.recordingProfileId, custom)
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>設定</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>閉じる</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.section}>
+            <Text style={styles.label}>録音操作</Text>
+            {RECORD_MODE_OPTIONS.map((option) => {
+              const selected = settings.recordMode === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => onChange({ recordMode: option.value })}
+                >
+                  <Text style={styles.optionTitle}>
+                    {selected ? "● " : "○ "}
+                    {option.title}
+                  </Text>
+                  <Text style={styles.optionDescription}>
+                    {option.description}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.optionTitle}>送信前に聞き直す</Text>
+                <Text style={styles.optionDescription}>
+                  録音を止めたあとに再生して前後を切り詰めてから送信します
+                </Text>
+              </View>
+              <Switch
+                value={settings.reviewBeforeSend}
+                onValueChange={(reviewBeforeSend) =>
+                  onChange({ reviewBeforeSend })
+                }
+              />
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>最大録音時間</Text>
+            <ChipRow
+              label="上限に達すると録音を止めて自動で送信します"
+              options={MAX_RECORDING_OPTIONS}
+              value={settings.maxRecordingSec}
+              format={(value) =>
+                value === 0
+                  ? "無制限"
+                  : value < 60
+                    ? `${value}秒`
+                    : `${value / 60}分`
+              }
+              onSelect={(maxRecordingSec) => onChange({ maxRecordingSec })}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>無音検出</Text>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.optionTitle}>話し終えたら自動で送信</Text>
+                <Text style={styles.optionDescription}>
+                  無音が続くと録音を止めて送信します
+                </Text>
+              </View>
+              <Switch
+                value={settings.silenceDetection}
+                onValueChange={(silenceDetection) =>
+                  onChange({ silenceDetection })
+                }
+              />
+            </View>
+
+            {settings.silenceDetection && (
+              <View style={styles.customEditor}>
+                <View style={styles.switchRow}>
+                  <View style={styles.switchLabel}>
+                    <Text
+                      style={[
+                        styles.optionTitle,
+                        !canTrimLeadingSilence && styles.optionDisabled,
+                      ]}
+                    >
+                      話し始める前の無音を削る
+                    </Text>
+                    <Text style={styles.optionDescription}>
+                      {canTrimLeadingSilence
+                        ? "録音の先頭の無音を切り取ってから送信します"
+                        : Platform.OS === "ios"
+                          ? "選択中の録音の音質（AAC）では使えません。WAV (PCM) で録音すると使えます"
+                          : "この端末で録音する AAC の音声は切り取れないため使えません"}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={canTrimLeadingSilence && settings.trimLeadingSilence}
+                    disabled={!canTrimLeadingSilence}
+                    onValueChange={(trimLeadingSilence) =>
+                      onChange({ trimLeadingSilence })
+                    }
+                  />
+                </View>
+                <ChipRow
+                  label="無音とみなす長さ"
+                  options={SILENCE_DURATION_OPTIONS}
+                  value={settings.silenceDurationSec}
+                  format={(value) => `${value}秒`}
+                  onSelect={(silenceDurationSec) =>
+                    onChange({ silenceDurationSec })
+                  }
+                />
+                <View style={styles.chipRow}>
+                  <Text style={styles.chipLabel}>しきい値</Text>
+                  <View style={styles.stepperRow}>
+                    <TouchableOpacity
+                      style={styles.chip}
+                      onPress={() =>
+                        onChange({
+                          silenceThresholdDb: clampThresholdDb(
+                            settings.silenceThresholdDb - THRESHOLD_STEP_DB
+                          ),
+                        })
+                      }
+                    >
+                      <Text style={styles.chipText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>
+                      {settings.silenceThresholdDb} dB
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.chip}
+                      onPress={() =>
+                        onChange({
+                          silenceThresholdDb: clampThresholdDb(
+                            settings.silenceThresholdDb + THRESHOLD_STEP_DB
+                          ),
+                        })
+                      }
+                    >
+                      <Text style={styles.chipText}>＋</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.chip, styles.calibrateButton]}
+                      onPress={onCalibrate}
+                      disabled={isCalibrating}
+                    >
+                      <Text style={[styles.chipText, styles.chipTextSelected]}>
+                        {isCalibrating ? "測定中..." : "周囲の音を測定"}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.optionDescription}>
+                    静かにした状態で 2 秒間測定し、周囲の音より少し大きい値に設定します
+                  </Text>
+                </View>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>録音の音質</Text>
+            {listRecordingProfiles(custom).map((profile) => {
+              const selected = settings.recordingProfileId === profile.id;
+              const supported = isRecordingProfileSupported(profile);
+              return (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={[
+                    styles.option,
+                    selected && styles.optionSelected,
+                    !supported && styles.optionDisabled,
+                  ]}
+                  disabled={!supported}
+                  onPress={() => onChange({ recordingProfileId: profile.id })}
+                >
+                  <View style={styles.optionHeader}>
+                    <Text style={styles.optionTitle}>
+                      {selected ? "● " : "○ "}
+                      {profile.title}
+                    </Text>
+                    <Text style={styles.sizeEstimate}>
+                      約 {formatBytes(estimateBytesPerMinute(profile))}/分
+                    </Text>
+                  </View>
+                  <Text style={styles.optionDescription}>
+                    {supported
+                      ? profile.description
+                      : "この端末では WAV で録音できません"}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {settings.recordingProfileId === "custom" && (
+              <View style={styles.customEditor}>
+                <ChipRow
+                  label="形式"
+                  options={FORMAT_OPTIONS.map((o) => o.value)}
+                  value={custom.format}
+                  format={(value) =>
+                    FORMAT_OPTIONS.find((o) => o.value === value)?.label ?? value
+                  }
+                  onSelect={(format) => changeCustom({ format })}
+                />
+                <ChipRow
+                  label="サンプルレート"
+                  options={SAMPLE_RATE_OPTIONS}
+                  value={custom.sampleRate}
+                  format={(value) => `${value / 1000}kHz`}
+                  onSelect={(sampleRate) => changeCustom({ sampleRate })}
+                />
+                <ChipRow
+                  label="チャンネル"
+                  options={CHANNEL_OPTIONS}
+                  value={custom.channels}
+                  format={(value) => (value === 1 ? "モノラル" : "ステレオ")}
+                  onSelect={(channels) => changeCustom({ channels })}
+                />
+                {custom.format === "aac" && (
+                  <ChipRow
+                    label="ビットレート"
+                    options={BIT_RATE_OPTIONS}
+                    value={custom.bitRate}
+                    format={(value) => `${value / 1000}kbps`}
+                    onSelect={(bitRate) => changeCustom({ bitRate })}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>文字起こし</Text>
+            {[
+              ...TRANSCRIPTION_PROVIDERS.map((provider) => ({
+                value: provider.id,
+                title: provider.title,
+                description: provider.description,
+              })),
+              {
+                value: null,
+                title: "オフ",
+                description: "録音を文字起こししません",
+              },
+            ].map((option) => {
+              const selected = settings.transcriptionProviderId === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value ?? "off"}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() =>
+                    onChange({ transcriptionProviderId: option.value })
+                  }
+                >
+                  <Text style={styles.optionTitle}>
+                    {selected ? "● " : "○ "}
+                    {option.title}
+                  </Text>
+                  <Text style={styles.optionDescription}>
+                    {option.description}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.label}>再生</Text>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.optionTitle}>Bot の返答を続けて再生</Text>
+                <Text style={styles.optionDescription}>
+                  再生が終わったら次の Bot メッセージを自動で再生します
+                </Text>
+              </View>
+              <Switch
+                value={settings.autoPlay}
+                onValueChange={(autoPlay) => onChange({ autoPlay })}
+              />
+            </View>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  closeText: {
+    fontSize: 16,
+    color: "#007AFF",
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    backgroundColor: "#fff",
+    padding: 16,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 8,
+  },
+  option: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    marginBottom: 8,
+    backgroundColor: "#fafafa",
+  },
+  optionSelected: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  sizeEstimate: {
+    fontSize: 12,
+    color: "#666",
+    marginBottom: 4,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 4,
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: "#666",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  customEditor: {
+    marginTop: 4,
+    gap: 10,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chipLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666",
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#fafafa",
+  },
+  chipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#333",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  calibrateButton: {
+    marginLeft: "auto",
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipTextSelected: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,50 @@
+import { StyleSheet, View } from "react-native";
+
+type Props = {
+  /** 現在の入力レベル (0〜1) */
+  level: number;
+};
+
+const SEGMENT_COUNT = 12;
+
+/** 録音中の入力レベルを横並びのセグメントで表示する */
+export default function LevelMeter({ level }: Props) {
+  const activeCount = Math.round(Math.min(1, Math.max(0, level)) * SEGMENT_COUNT);
+
+  return (
+    <View style={styles.container}>
+      {Array.from({ length: SEGMENT_COUNT }, (_, index) => (
+        <View
+          key={index}
+          style={[
+            styles.segment,
+            index < activeCount &&
+              (index >= SEGMENT_COUNT - 2
+                ? styles.segmentPeak
+                : styles.segmentActive),
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  segment: {
+    width: 4,
+    height: 12,
+    borderRadius: 1,
+    backgroundColor: "#e0e0e0",
+  },
+  segmentActive: {
+    backgroundColor: "#ff3b30",
+  },
+  segmentPeak: {
+    backgroundColor: "#ff9500",
+  },
+});
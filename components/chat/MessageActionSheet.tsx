@@ -0,0 +1,113 @@
+import {
+  Modal,
+  Pressable,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+export type MessageAction = {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type Props = {
+  visible: boolean;
+  title: string;
+  actions: MessageAction[];
+  onClose: () => void;
+};
+
+/** メッセージを長押ししたときに下から出る操作メニュー */
+export default function MessageActionSheet({
+  visible,
+  title,
+  actions,
+  onClose,
+}: Props) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <SafeAreaView style={styles.sheet}>
+          <Text style={styles.title}>{title}</Text>
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.action}
+              onPress={() => {
+                onClose();
+                action.onPress();
+              }}
+            >
+              <Text
+                style={[
+                  styles.actionText,
+                  action.destructive && styles.actionTextDestructive,
+                ]}
+              >
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.separator} />
+          <TouchableOpacity style={styles.action} onPress={onClose}>
+            <Text style={styles.cancelText}>キャンセル</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 13,
+    color: "#666",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  action: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  actionText: {
+    fontSize: 16,
+    color: "#007AFF",
+    textAlign: "center",
+  },
+  actionTextDestructive: {
+    color: "#ff3b30",
+  },
+  separator: {
+    height: 8,
+    backgroundColor: "#f5f5f5",
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,343 @@
+import { useEffect, useRef, useState } from "react";
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from "react-native-reanimated";
+
+import type { RecordMode } from "@/lib/chat/settings";
+
+type Props = {
+  mode: RecordMode;
+  isRecording: boolean;
+  onStart: () => Promise<void>;
+  onSend: () => Promise<void>;
+  onCancel: () => Promise<void>;
+};
+
+/**
+ * holding: 押している間録音中、cancelling: 左へスライドして離すと破棄、
+ * locked: 上へスライドして指を離しても録音を続ける
+ */
+type HoldState = "idle" | "holding" | "cancelling" | "locked";
+
+const CANCEL_DISTANCE = 100;
+const LOCK_DISTANCE = 80;
+// これより短い長押しは誤タップとみなして破棄する
+const MIN_HOLD_MS = 300;
+
+export default function RecordButton({
+  mode,
+  isRecording,
+  onStart,
+  onSend,
+  onCancel,
+}: Props) {
+  const [holdState, setHoldState] = useState<HoldState>("idle");
+  const [hint, setHint] = useState<string | null>(null);
+  const holdStateRef = useRef<HoldState>("idle");
+  // 録音開始の結果（開始できなかったら false）
+  const startPromiseRef = useRef<Promise<boolean> | null>(null);
+  const holdStartedAtRef = useRef(0);
+
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const pressed = useSharedValue(0);
+
+  const changeHoldState = (next: HoldState) => {
+    holdStateRef.current = next;
+    setHoldState(next);
+  };
+
+  const resetPosition = () => {
+    translateX.value = withSpring(0);
+    translateY.value = withSpring(0);
+    pressed.value = withSpring(0);
+  };
+
+  // 自動停止など外部で録音が終わった場合も表示を戻す
+  useEffect(() => {
+    if (!isRecording && holdStateRef.current === "locked") {
+      holdStateRef.current = "idle";
+      setHoldState("idle");
+      pressed.value = withSpring(0);
+    }
+  }, [isRecording, pressed]);
+
+  // 録音を始める。失敗したらエラーを表示して待機状態に戻す
+  const start = () => {
+    const promise = onStart().then(
+      () => true,
+      (error) => {
+        console.error("Recording start error:", error);
+        Alert.alert(
+          "エラー",
+          error instanceof Error ? error.message : "録音を開始できませんでした"
+        );
+        changeHoldState("idle");
+        resetPosition();
+        return false;
+      }
+    );
+    startPromiseRef.current = promise;
+    return promise;
+  };
+
+  const finish = async (action: "send" | "cancel") => {
+    changeHoldState("idle");
+    resetPosition();
+    // 録音開始の準備が終わる前に離された場合に備えて待つ
+    const started = await startPromiseRef.current;
+    startPromiseRef.current = null;
+    if (started === false) {
+      return;
+    }
+    await (action === "send" ? onSend() : onCancel());
+  };
+
+  const handleBegin = () => {
+    setHint(null);
+    holdStartedAtRef.current = Date.now();
+    changeHoldState("holding");
+    pressed.value = withSpring(1);
+    start();
+  };
+
+  const handleUpdate = (dx: number, dy: number) => {
+    const state = holdStateRef.current;
+    if (state === "idle" || state === "locked") {
+      return;
+    }
+
+    translateX.value = Math.min(0, Math.max(-CANCEL_DISTANCE * 1.2, dx));
+    translateY.value = Math.min(0, Math.max(-LOCK_DISTANCE * 1.2, dy));
+
+    if (dy < -LOCK_DISTANCE) {
+      changeHoldState("locked");
+      resetPosition();
+    } else if (dx < -CANCEL_DISTANCE) {
+      if (state !== "cancelling") {
+        changeHoldState("cancelling");
+      }
+    } else if (state === "cancelling") {
+      changeHoldState("holding");
+    }
+  };
+
+  const handleRelease = () => {
+    const state = holdStateRef.current;
+    if (state === "locked" || state === "idle") {
+      return;
+    }
+    if (state === "cancelling") {
+      finish("cancel");
+      return;
+    }
+    if (Date.now() - holdStartedAtRef.current < MIN_HOLD_MS) {
+      setHint("長押しして話してください");
+      finish("cancel");
+      return;
+    }
+    finish("send");
+  };
+
+  const holdGesture = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .shouldCancelWhenOutside(false)
+    .enabled(holdState !== "locked")
+    .onBegin(handleBegin)
+    .onUpdate((event) => handleUpdate(event.translationX, event.translationY))
+    .onFinalize(handleRelease);
+
+  const buttonStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: 1 + pressed.value * 0.25 },
+    ],
+  }));
+
+  const lockStyle = useAnimatedStyle(() => ({
+    opacity: pressed.value,
+    transform: [{ translateY: translateY.value * 0.5 }],
+  }));
+
+  if (mode === "tap") {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity
+          onPress={() => (isRecording ? onSend() : start())}
+          style={[styles.micButton, isRecording && styles.micButtonRecording]}
+        >
+          <Text style={styles.micIcon}>🎤</Text>
+        </TouchableOpacity>
+        <Text style={styles.recordHint}>
+          {isRecording ? "Recording... Tap to stop" : "Tap to record"}
+        </Text>
+      </View>
+    );
+  }
+
+  if (holdState === "locked") {
+    return (
+      <View style={styles.container}>
+        <View style={styles.lockedControls}>
+          <TouchableOpacity
+            style={styles.lockedCancelButton}
+            onPress={() => finish("cancel")}
+          >
+            <Text style={styles.lockedCancelText}>🗑 破棄</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.micButton, styles.micButtonRecording]}
+            onPress={() => finish("send")}
+          >
+            <Text style={styles.sendIcon}>➤</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.recordHint}>🔒 ロック中 — ➤ で送信</Text>
+      </View>
+    );
+  }
+
+  const isHolding = holdState === "holding" || holdState === "cancelling";
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.holdArea}>
+        {isHolding && (
+          <Text
+            style={[
+              styles.cancelIndicator,
+              holdState === "cancelling" && styles.cancelIndicatorActive,
+            ]}
+          >
+            {holdState === "cancelling" ? "🗑 離すと破棄" : "‹‹ スライドで破棄"}
+          </Text>
+        )}
+        <Animated.View style={[styles.lockIndicator, lockStyle]}>
+          <Text style={styles.lockIcon}>🔒</Text>
+          <Text style={styles.lockArrow}>⌃</Text>
+        </Animated.View>
+        <GestureDetector gesture={holdGesture}>
+          <Animated.View
+            style={[
+              styles.micButton,
+              isHolding && styles.micButtonRecording,
+              holdState === "cancelling" && styles.micButtonCancelling,
+              buttonStyle,
+            ]}
+          >
+            <Text style={styles.micIcon}>🎤</Text>
+          </Animated.View>
+        </GestureDetector>
+      </View>
+      <Text
+        style={[
+          styles.recordHint,
+          holdState === "cancelling" && styles.recordHintCancelling,
+        ]}
+      >
+        {holdState === "cancelling"
+          ? "指を離すと録音を破棄します"
+          : isHolding
+            ? "離して送信 ・ ← 破棄 ・ ↑ ロック"
+            : (hint ?? "長押しで録音")}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+  },
+  holdArea: {
+    width: "100%",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  micButton: {
+    width: 70,
+    height: 70,
+    borderRadius: 35,
+    backgroundColor: "#007AFF",
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  micButtonRecording: {
+    backgroundColor: "#ff3b30",
+  },
+  micButtonCancelling: {
+    backgroundColor: "#8e8e93",
+  },
+  micIcon: {
+    fontSize: 32,
+  },
+  sendIcon: {
+    fontSize: 28,
+    color: "#fff",
+  },
+  recordHint: {
+    fontSize: 12,
+    color: "#666",
+  },
+  recordHintCancelling: {
+    color: "#ff3b30",
+    fontWeight: "600",
+  },
+  cancelIndicator: {
+    position: "absolute",
+    left: 16,
+    fontSize: 13,
+    color: "#999",
+  },
+  cancelIndicatorActive: {
+    color: "#ff3b30",
+    fontWeight: "600",
+  },
+  lockIndicator: {
+    position: "absolute",
+    top: -56,
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  lockIcon: {
+    fontSize: 16,
+  },
+  lockArrow: {
+    fontSize: 12,
+    color: "#999",
+  },
+  lockedControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 24,
+  },
+  lockedCancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: "#f0f0f0",
+    marginBottom: 8,
+  },
+  lockedCancelText: {
+    fontSize: 14,
+    color: "#ff3b30",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,180 @@
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import TrimWaveform from "@/components/chat/TrimWaveform";
+import { downsampleEnvelope } from "@/lib/audio/waveform";
+import { canTrimDraft, type RecordingDraft } from "@/lib/chat/recordingDraft";
+
+type Props = {
+  draft: RecordingDraft;
+  /** 残す範囲（秒）を渡して送信する */
+  onSend: (startSec: number, endSec: number) => Promise<void>;
+  onDiscard: () => void;
+};
+
+// 範囲選択用に少し細かめの波形を作る
+const REVIEW_WAVEFORM_SAMPLES = 80;
+
+/** 録音を止めたあと、聞き直して前後を切り詰めてから送信するパネル */
+export default function RecordingReview({ draft, onSend, onDiscard }: Props) {
+  const player = useAudioPlayer(draft.uri);
+  const status = useAudioPlayerStatus(player);
+  const [range, setRange] = useState({ start: 0, end: 1 });
+  const [isSending, setIsSending] = useState(false);
+
+  const duration = draft.durationSec || status.duration;
+  const startSec = range.start * duration;
+  const endSec = range.end * duration;
+  const canTrim = canTrimDraft(draft);
+  const progress = duration > 0 ? status.currentTime / duration : 0;
+
+  // 範囲の終わりまで来たら止めて先頭に戻す
+  useEffect(() => {
+    if (status.playing && status.currentTime >= endSec) {
+      player.pause();
+      player.seekTo(startSec);
+    }
+  }, [status.playing, status.currentTime, startSec, endSec, player]);
+
+  const togglePreview = () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (status.currentTime < startSec || status.currentTime >= endSec) {
+      player.seekTo(startSec);
+    }
+    player.play();
+  };
+
+  const handleSend = async () => {
+    player.pause();
+    setIsSending(true);
+    try {
+      await onSend(startSec, endSec);
+    } catch (error) {
+      // 送信できなかったら下書きを残し、そのまま送り直せるようにする
+      console.error("Draft send error:", error);
+      Alert.alert(
+        "エラー",
+        error instanceof Error ? error.message : "送信に失敗しました"
+      );
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.previewRow}>
+        <TouchableOpacity style={styles.playButton} onPress={togglePreview}>
+          <Text style={styles.playIcon}>{status.playing ? "⏸" : "▶︎"}</Text>
+        </TouchableOpacity>
+        <View style={styles.waveform}>
+          <TrimWaveform
+            samples={downsampleEnvelope(draft.levels, REVIEW_WAVEFORM_SAMPLES)}
+            start={range.start}
+            end={canTrim ? range.end : 1}
+            progress={progress}
+            onChange={(start, end) => canTrim && setRange({ start, end })}
+          />
+        </View>
+      </View>
+      <Text style={styles.rangeText}>
+        {canTrim
+          ? `${startSec.toFixed(1)}s 〜 ${endSec.toFixed(1)}s（${(endSec - startSec).toFixed(1)}s）`
+          : `${duration.toFixed(1)}s ・ 切り詰めは WAV の録音のみ対応しています`}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.discardButton}
+          onPress={onDiscard}
+          disabled={isSending}
+        >
+          <Text style={styles.discardText}>🗑 破棄</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.sendButton}
+          onPress={handleSend}
+          disabled={isSending}
+        >
+          {isSending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.sendText}>➤ 送信</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  playIcon: {
+    fontSize: 18,
+    color: "#007AFF",
+  },
+  waveform: {
+    flex: 1,
+  },
+  rangeText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: "#666",
+    textAlign: "center",
+  },
+  actions: {
+    marginTop: 12,
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 16,
+  },
+  discardButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: "#f0f0f0",
+  },
+  discardText: {
+    fontSize: 14,
+    color: "#ff3b30",
+    fontWeight: "600",
+  },
+  sendButton: {
+    minWidth: 96,
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: "#007AFF",
+  },
+  sendText: {
+    fontSize: 14,
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
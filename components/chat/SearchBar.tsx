@@ -0,0 +1,100 @@
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+type Props = {
+  query: string;
+  onChangeQuery: (query: string) => void;
+  /** 現在のヒットが何件目か (ヒットなしなら 0) */
+  position: number;
+  matchCount: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+};
+
+/** 会話の文字起こしを検索するバー */
+export default function SearchBar({
+  query,
+  onChangeQuery,
+  position,
+  matchCount,
+  onPrevious,
+  onNext,
+  onClose,
+}: Props) {
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={onChangeQuery}
+        placeholder="文字起こしを検索"
+        returnKeyType="search"
+        onSubmitEditing={onNext}
+        autoFocus
+      />
+      <Text style={styles.count}>
+        {query.trim() ? `${position} / ${matchCount}` : ""}
+      </Text>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={onPrevious}
+        disabled={matchCount === 0}
+      >
+        <Text style={[styles.buttonText, matchCount === 0 && styles.disabled]}>
+          ▲
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={onNext}
+        disabled={matchCount === 0}
+      >
+        <Text style={[styles.buttonText, matchCount === 0 && styles.disabled]}>
+          ▼
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.button} onPress={onClose}>
+        <Text style={styles.buttonText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  input: {
+    flex: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+    fontSize: 14,
+    color: "#333",
+  },
+  count: {
+    minWidth: 44,
+    textAlign: "center",
+    fontSize: 12,
+    color: "#666",
+  },
+  button: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  buttonText: {
+    fontSize: 14,
+    color: "#007AFF",
+  },
+  disabled: {
+    color: "#ccc",
+  },
+});
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Modal,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import type { ChatThread } from "@/lib/chat/types";
+
+type Props = {
+  visible: boolean;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onClose: () => void;
+  onSelect: (threadId: string) => void;
+  onCreate: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+};
+
+const formatDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date
+    .getHours()
+    .toString()
+    .padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+};
+
+export default function ThreadListModal({
+  visible,
+  threads,
+  activeThreadId,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: Props) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (thread: ChatThread) => {
+    Alert.alert(
+      "会話を削除",
+      `「${thread.title}」と録音ファイルをすべて削除します。よろしいですか？`,
+      [
+        { text: "キャンセル", style: "cancel" },
+        {
+          text: "削除",
+          style: "destructive",
+          onPress: () => onDelete(thread.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>会話一覧</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>閉じる</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={styles.createButton}
+          onPress={() => {
+            onCreate();
+            onClose();
+          }}
+        >
+          <Text style={styles.createButtonText}>＋ 新しい会話</Text>
+        </TouchableOpacity>
+
+        <FlatList
+          data={threads}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          renderItem={({ item }) => {
+            const isActive = item.id === activeThreadId;
+            const isEditing = item.id === editingId;
+
+            return (
+              <View style={[styles.threadRow, isActive && styles.threadRowActive]}>
+                {isEditing ? (
+                  <TextInput
+                    style={styles.titleInput}
+                    value={editingTitle}
+                    onChangeText={setEditingTitle}
+                    onSubmitEditing={commitRename}
+                    onBlur={commitRename}
+                    autoFocus
+                    returnKeyType="done"
+                  />
+                ) : (
+                  <TouchableOpacity
+                    style={styles.threadInfo}
+                    onPress={() => {
+                      onSelect(item.id);
+                      onClose();
+                    }}
+                  >
+                    <Text style={styles.threadTitle} numberOfLines={1}>
+                      {item.title}
+                    </Text>
+                    <Text style={styles.threadDate}>
+                      {formatDate(item.updatedAt)}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => (isEditing ? commitRename() : startRename(item))}
+                >
+                  <Text style={styles.actionText}>{isEditing ? "✓" : "✏️"}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => confirmDelete(item)}
+                >
+                  <Text style={styles.actionText}>🗑</Text>
+                </TouchableOpacity>
+              </View>
+            );
+          }}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  closeText: {
+    fontSize: 16,
+    color: "#007AFF",
+  },
+  createButton: {
+    margin: 16,
+    padding: 14,
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  createButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+  },
+  threadRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+  },
+  threadRowActive: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  threadInfo: {
+    flex: 1,
+  },
+  threadTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 4,
+  },
+  threadDate: {
+    fontSize: 12,
+    color: "#666",
+  },
+  titleInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 6,
+    padding: 8,
+    fontSize: 16,
+    backgroundColor: "#fafafa",
+  },
+  actionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  actionText: {
+    fontSize: 18,
+  },
+});
@@ -0,0 +1,128 @@
+import { useRef, useState } from "react";
+import {
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  StyleSheet,
+  View,
+} from "react-native";
+
+import { WAVEFORM_SAMPLE_COUNT } from "@/lib/audio/waveform";
+
+type Props = {
+  samples: number[];
+  /** 残す範囲の開始・終了 (0〜1) */
+  start: number;
+  end: number;
+  /** 再生位置 (0〜1) */
+  progress: number;
+  height?: number;
+  onChange: (start: number, end: number) => void;
+};
+
+const MIN_BAR_RATIO = 0.08;
+// 開始と終了のハンドルの最小間隔
+const MIN_RANGE = 0.05;
+
+const FLAT_SAMPLES = new Array(WAVEFORM_SAMPLE_COUNT).fill(0);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** 波形の上で開始・終了のハンドルをドラッグして残す範囲を選ぶ */
+export default function TrimWaveform({
+  samples,
+  start,
+  end,
+  progress,
+  height = 56,
+  onChange,
+}: Props) {
+  const [width, setWidth] = useState(0);
+  // タッチした位置に近い方のハンドルを動かす
+  const handleRef = useRef<"start" | "end">("start");
+
+  const bars = samples.length > 0 ? samples : FLAT_SAMPLES;
+
+  const fractionOf = (event: GestureResponderEvent) =>
+    width > 0 ? clamp01(event.nativeEvent.locationX / width) : 0;
+
+  const moveHandle = (fraction: number) => {
+    if (handleRef.current === "start") {
+      onChange(Math.min(fraction, end - MIN_RANGE), end);
+    } else {
+      onChange(start, Math.max(fraction, start + MIN_RANGE));
+    }
+  };
+
+  return (
+    <View
+      style={[styles.container, { height }]}
+      onLayout={(event: LayoutChangeEvent) =>
+        setWidth(event.nativeEvent.layout.width)
+      }
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderTerminationRequest={() => false}
+      onResponderGrant={(event) => {
+        const fraction = fractionOf(event);
+        handleRef.current =
+          Math.abs(fraction - start) <= Math.abs(fraction - end)
+            ? "start"
+            : "end";
+        moveHandle(fraction);
+      }}
+      onResponderMove={(event) => moveHandle(fractionOf(event))}
+    >
+      {bars.map((level, index) => {
+        const position = (index + 0.5) / bars.length;
+        const inRange = position >= start && position <= end;
+        return (
+          <View
+            key={index}
+            pointerEvents="none"
+            style={[
+              styles.bar,
+              {
+                height: Math.max(MIN_BAR_RATIO, clamp01(level)) * height,
+                backgroundColor: !inRange
+                  ? "#d8d8dc"
+                  : position <= progress
+                    ? "#007AFF"
+                    : "#8fb8f0",
+              },
+            ]}
+          />
+        );
+      })}
+      <View
+        pointerEvents="none"
+        style={[styles.handle, { left: `${start * 100}%` }]}
+      />
+      <View
+        pointerEvents="none"
+        style={[styles.handle, { left: `${end * 100}%` }]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 1,
+  },
+  handle: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 3,
+    marginLeft: -1.5,
+    borderRadius: 1.5,
+    backgroundColor: "#ff9500",
+  },
+});
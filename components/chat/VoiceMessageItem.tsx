@@ -0,0 +1,354 @@
+import { memo, useState } from "react";
+import {
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import Waveform from "@/components/chat/Waveform";
+import { formatBytes, recordingProfileTitle } from "@/lib/audio/recordingProfiles";
+import type { VoiceMessage } from "@/lib/chat/types";
+
+const formatDuration = (seconds: number): string => {
+  return seconds.toFixed(1) + "s";
+};
+
+const formatAudioDetails = (message: VoiceMessage): string => {
+  const details: string[] = [];
+  if (message.recordingProfileId) {
+    details.push(recordingProfileTitle(message.recordingProfileId));
+  }
+  if (message.codec) {
+    details.push(message.codec.toUpperCase());
+  }
+  if (message.sampleRate) {
+    details.push(`${(message.sampleRate / 1000).toFixed(1)}kHz`);
+  }
+  if (message.channels) {
+    details.push(message.channels === 1 ? "mono" : `${message.channels}ch`);
+  }
+  if (message.sizeBytes) {
+    details.push(formatBytes(message.sizeBytes));
+  }
+  return details.join(" · ");
+};
+
+type Props = {
+  item: VoiceMessage;
+  /** 共有プレイヤーにこのメッセージが読み込まれているか */
+  isActive: boolean;
+  isPlaying: boolean;
+  currentTime: number;
+  /** 共有プレイヤーが報告する長さ（読み込み前は 0） */
+  playerDuration: number;
+  onTogglePlay: (item: VoiceMessage) => void;
+  onSeek: (item: VoiceMessage, seconds: number) => void;
+  onCycleRate: (item: VoiceMessage) => void;
+  /** バブルを長押ししたときの操作 */
+  onLongPress?: (item: VoiceMessage) => void;
+  isTranscribing?: boolean;
+  onRetryTranscript?: (item: VoiceMessage) => void;
+  onEditTranscript?: (item: VoiceMessage, transcript: string) => void;
+  /** 検索で選ばれているメッセージを強調する */
+  isHighlighted?: boolean;
+};
+
+function VoiceMessageItem({
+  item,
+  isActive,
+  isPlaying,
+  currentTime,
+  playerDuration,
+  onTogglePlay,
+  onSeek,
+  onCycleRate,
+  onLongPress,
+  isTranscribing = false,
+  onRetryTranscript,
+  onEditTranscript,
+  isHighlighted = false,
+}: Props) {
+  // 編集中の文字起こし（編集していなければ null）
+  const [editingTranscript, setEditingTranscript] = useState<string | null>(
+    null
+  );
+
+  // 読み込み前はメッセージに保存された長さで進捗を計算する
+  const duration =
+    isActive && playerDuration > 0 ? playerDuration : item.durationSec;
+  // 再生中でなければ前回止めた位置を表示する
+  const position = isActive ? currentTime : (item.playbackPosition ?? 0);
+  const progress = duration > 0 ? position / duration : 0;
+  const remaining = Math.max(0, duration - position);
+  const rate = item.playbackRate ?? 1;
+
+  const handlePlay = () => {
+    onTogglePlay(item);
+  };
+
+  const handleSeek = (fraction: number) => {
+    onSeek(item, fraction * duration);
+  };
+
+  const saveTranscript = () => {
+    if (editingTranscript !== null) {
+      onEditTranscript?.(item, editingTranscript);
+    }
+    setEditingTranscript(null);
+  };
+
+  const isUser = item.from === "user";
+  const details = formatAudioDetails(item);
+  const hasTranscript =
+    isTranscribing || item.transcript !== undefined || !!item.transcriptError;
+
+  return (
+    <View
+      style={[
+        styles.messageContainer,
+        isUser ? styles.userMessageContainer : styles.botMessageContainer,
+      ]}
+    >
+      {!isUser && <Text style={styles.messageLabel}>Bot</Text>}
+      <Pressable
+        onLongPress={onLongPress ? () => onLongPress(item) : undefined}
+        style={[
+          styles.messageBubble,
+          isUser ? styles.userBubble : styles.botBubble,
+          isHighlighted && styles.highlightedBubble,
+        ]}
+      >
+        <View style={styles.playerRow}>
+          <TouchableOpacity onPress={handlePlay} style={styles.playButton}>
+            <Text style={[styles.playIcon, isUser && styles.playIconUser]}>
+              {isPlaying ? "⏸" : "▶︎"}
+            </Text>
+          </TouchableOpacity>
+          <View style={styles.bubbleBody}>
+            <Waveform
+              samples={item.waveform}
+              progress={progress}
+              color={isUser ? "rgba(255, 255, 255, 0.45)" : "#b0b0b8"}
+              playedColor={isUser ? "#fff" : "#007AFF"}
+              onSeek={handleSeek}
+            />
+            <View style={styles.infoRow}>
+              <Text style={[styles.durationText, isUser && styles.durationTextUser]}>
+                {position > 0 && remaining > 0.05
+                  ? `-${formatDuration(remaining)}`
+                  : formatDuration(item.durationSec)}
+              </Text>
+              {details ? (
+                <Text style={[styles.detailsText, isUser && styles.detailsTextUser]}>
+                  {details}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+          <TouchableOpacity
+            onPress={() => onCycleRate(item)}
+            style={[styles.rateButton, isUser && styles.rateButtonUser]}
+          >
+            <Text style={[styles.rateText, isUser && styles.rateTextUser]}>
+              {rate}x
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {item.text ? (
+          <Text style={[styles.replyText, isUser && styles.replyTextUser]}>
+            {item.text}
+          </Text>
+        ) : null}
+        {isUser && hasTranscript ? (
+          <View style={styles.transcriptBox}>
+            {editingTranscript !== null ? (
+              <>
+                <TextInput
+                  style={styles.transcriptInput}
+                  value={editingTranscript}
+                  onChangeText={setEditingTranscript}
+                  multiline
+                  autoFocus
+                />
+                <View style={styles.transcriptActions}>
+                  <TouchableOpacity onPress={() => setEditingTranscript(null)}>
+                    <Text style={styles.transcriptAction}>キャンセル</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveTranscript}>
+                    <Text
+                      style={[
+                        styles.transcriptAction,
+                        styles.transcriptActionPrimary,
+                      ]}
+                    >
+                      保存
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : isTranscribing ? (
+              <Text style={styles.transcriptStatus}>文字起こし中...</Text>
+            ) : item.transcriptError ? (
+              <TouchableOpacity onPress={() => onRetryTranscript?.(item)}>
+                <Text style={styles.transcriptStatus}>
+                  ⚠️ 文字起こしに失敗しました（タップで再試行）
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                disabled={!onEditTranscript}
+                onPress={() => setEditingTranscript(item.transcript ?? "")}
+              >
+                <Text style={[styles.replyText, styles.replyTextUser]}>
+                  {item.transcript || "（話し声なし）"}
+                  {onEditTranscript ? " ✎" : ""}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : null}
+      </Pressable>
+      {isUser && <Text style={styles.messageLabel}>You</Text>}
+    </View>
+  );
+}
+
+export default memo(VoiceMessageItem);
+
+const styles = StyleSheet.create({
+  messageContainer: {
+    marginBottom: 12,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  userMessageContainer: {
+    justifyContent: "flex-end",
+  },
+  botMessageContainer: {
+    justifyContent: "flex-start",
+  },
+  messageBubble: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 18,
+    maxWidth: "70%",
+  },
+  userBubble: {
+    backgroundColor: "#007AFF",
+  },
+  botBubble: {
+    backgroundColor: "#E5E5EA",
+  },
+  playerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  playButton: {
+    marginRight: 8,
+  },
+  playIcon: {
+    fontSize: 16,
+    color: "#333",
+  },
+  playIconUser: {
+    color: "#fff",
+  },
+  bubbleBody: {
+    width: 150,
+  },
+  rateButton: {
+    marginLeft: 8,
+    minWidth: 34,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: "rgba(0, 0, 0, 0.08)",
+    alignItems: "center",
+  },
+  rateButtonUser: {
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
+  },
+  rateText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#333",
+  },
+  rateTextUser: {
+    color: "#fff",
+  },
+  infoRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 6,
+    marginTop: 4,
+  },
+  durationText: {
+    fontSize: 14,
+    color: "#333",
+    fontWeight: "500",
+  },
+  durationTextUser: {
+    color: "#fff",
+  },
+  detailsText: {
+    flexShrink: 1,
+    fontSize: 10,
+    color: "#666",
+  },
+  detailsTextUser: {
+    color: "rgba(255, 255, 255, 0.8)",
+  },
+  replyText: {
+    maxWidth: 190,
+    marginTop: 6,
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#333",
+  },
+  replyTextUser: {
+    color: "#fff",
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: "#ff9500",
+  },
+  transcriptBox: {
+    maxWidth: 190,
+  },
+  transcriptStatus: {
+    marginTop: 6,
+    fontSize: 12,
+    color: "rgba(255, 255, 255, 0.8)",
+  },
+  transcriptInput: {
+    marginTop: 6,
+    minWidth: 160,
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: "#fff",
+    fontSize: 14,
+    color: "#333",
+  },
+  transcriptActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 4,
+  },
+  transcriptAction: {
+    fontSize: 12,
+    color: "rgba(255, 255, 255, 0.8)",
+  },
+  transcriptActionPrimary: {
+    color: "#fff",
+    fontWeight: "700",
+  },
+  messageLabel: {
+    fontSize: 12,
+    color: "#999",
+    marginHorizontal: 8,
+  },
+});
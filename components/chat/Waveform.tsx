@@ -0,0 +1,96 @@
+import { useState } from "react";
+import {
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  StyleSheet,
+  View,
+} from "react-native";
+
+import { WAVEFORM_SAMPLE_COUNT } from "@/lib/audio/waveform";
+
+type Props = {
+  samples?: number[];
+  /** 再生位置 (0〜1) */
+  progress: number;
+  color: string;
+  playedColor: string;
+  height?: number;
+  /** タップ／ドラッグを離した位置 (0〜1) へシークする */
+  onSeek?: (fraction: number) => void;
+};
+
+const MIN_BAR_RATIO = 0.08;
+
+// 波形データを持たない古いメッセージ用の平坦な波形
+const FLAT_SAMPLES = new Array(WAVEFORM_SAMPLE_COUNT).fill(0);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export default function Waveform({
+  samples,
+  progress,
+  color,
+  playedColor,
+  height = 28,
+  onSeek,
+}: Props) {
+  const [width, setWidth] = useState(0);
+  const [dragProgress, setDragProgress] = useState<number | null>(null);
+
+  const bars = samples && samples.length > 0 ? samples : FLAT_SAMPLES;
+  const shownProgress = dragProgress ?? clamp01(progress);
+
+  const fractionOf = (event: GestureResponderEvent) =>
+    width > 0 ? clamp01(event.nativeEvent.locationX / width) : 0;
+
+  return (
+    <View
+      style={[styles.container, { height }]}
+      onLayout={(event: LayoutChangeEvent) =>
+        setWidth(event.nativeEvent.layout.width)
+      }
+      onStartShouldSetResponder={() => !!onSeek}
+      onMoveShouldSetResponder={() => !!onSeek}
+      onResponderTerminationRequest={() => false}
+      onResponderGrant={(event) => setDragProgress(fractionOf(event))}
+      onResponderMove={(event) => setDragProgress(fractionOf(event))}
+      onResponderRelease={(event) => {
+        const fraction = fractionOf(event);
+        setDragProgress(null);
+        onSeek?.(fraction);
+      }}
+      onResponderTerminate={() => setDragProgress(null)}
+    >
+      {bars.map((level, index) => {
+        const played = (index + 0.5) / bars.length <= shownProgress;
+        return (
+          <View
+            key={index}
+            pointerEvents="none"
+            style={[
+              styles.bar,
+              {
+                height: Math.max(MIN_BAR_RATIO, clamp01(level)) * height,
+                backgroundColor: played ? playedColor : color,
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 1,
+  },
+});
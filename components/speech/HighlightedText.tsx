@@ -0,0 +1,87 @@
+import { Fragment } from "react";
+import { StyleSheet, Text, type StyleProp, type TextStyle } from "react-native";
+
+import type { SpeechChunk } from "@/lib/speech/chunks";
+import type { SpeechBoundary } from "@/lib/speech/player";
+
+type Props = {
+  text: string;
+  /** text を chunkText で分けた文 */
+  chunks: SpeechChunk[];
+  /** 読み上げ中の文（読み上げていなければ -1） */
+  currentIndex: number;
+  /** 読み上げ中の単語。onBoundary が届かない環境では null のまま */
+  boundary: SpeechBoundary | null;
+  onPressChunk: (index: number) => void;
+  style?: StyleProp<TextStyle>;
+};
+
+/**
+ * 読み上げ中の文と単語をカラオケのように強調して表示する。
+ * 文をタップするとそこから読み上げる。
+ */
+export default function HighlightedText({
+  text,
+  chunks,
+  currentIndex,
+  boundary,
+  onPressChunk,
+  style,
+}: Props) {
+  const renderChunk = (chunk: SpeechChunk, index: number) => {
+    const isCurrent = index === currentIndex;
+    const word =
+      isCurrent &&
+      boundary &&
+      boundary.start >= chunk.start &&
+      boundary.end <= chunk.end
+        ? boundary
+        : null;
+
+    return (
+      <Text
+        style={isCurrent && styles.currentSentence}
+        onPress={() => onPressChunk(index)}
+      >
+        {word ? (
+          <>
+            {text.slice(chunk.start, word.start)}
+            <Text style={styles.currentWord}>
+              {text.slice(word.start, word.end)}
+            </Text>
+            {text.slice(word.end, chunk.end)}
+          </>
+        ) : (
+          chunk.text
+        )}
+      </Text>
+    );
+  };
+
+  return (
+    <Text style={style}>
+      {chunks.map((chunk, index) => (
+        <Fragment key={chunk.start}>
+          {/* 文と文の間の空白・改行・マークアップのタグは薄く表示する */}
+          <Text style={styles.gap}>
+            {text.slice(index === 0 ? 0 : chunks[index - 1].end, chunk.start)}
+          </Text>
+          {renderChunk(chunk, index)}
+        </Fragment>
+      ))}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  gap: {
+    color: "#999",
+  },
+  currentSentence: {
+    backgroundColor: "#E3F2FD",
+  },
+  currentWord: {
+    backgroundColor: "#007AFF",
+    color: "#fff",
+  },
+});
@@ -0,0 +1,63 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from "react-native";
+
+import { languageLabel } from "@/lib/speech/languages";
+
+type Props = {
+  /** 選べる言語コード（インストールされている音声の言語） */
+  languages: string[];
+  value: string;
+  onChange: (language: string) => void;
+};
+
+/** インストールされている音声の言語から読み上げの言語を選ぶ */
+export default function LanguagePicker({ languages, value, onChange }: Props) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.chips}
+    >
+      {languages.map((language) => {
+        const selected = language === value;
+        return (
+          <TouchableOpacity
+            key={language}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onChange(language)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+              {languageLabel(language)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#fafafa",
+  },
+  chipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  chipTextSelected: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,120 @@
+import type * as Speech from "expo-speech";
+import { StyleSheet, Text, View } from "react-native";
+
+import {
+  describePosition,
+  type CompiledMarkup,
+} from "@/lib/speech/markup";
+import type { SpeechChunk } from "@/lib/speech/chunks";
+
+type Props = {
+  source: string;
+  compiled: CompiledMarkup;
+  voices: Speech.Voice[];
+};
+
+/** マークアップの誤りと、どの設定でどう分けて読み上げるかを一覧する */
+export default function MarkupPreview({ source, compiled, voices }: Props) {
+  const describeSettings = (chunk: SpeechChunk) => {
+    const { settings = {}, emphasis } = chunk;
+    const voice = voices.find((v) => v.identifier === settings.voice);
+    return (
+      [
+        emphasis && "強調",
+        settings.voice && (voice?.name ?? settings.voice),
+        settings.language,
+        settings.rate !== undefined && `速度 ${settings.rate.toFixed(1)}`,
+        settings.pitch !== undefined && `ピッチ ${settings.pitch.toFixed(1)}`,
+      ]
+        .filter(Boolean)
+        .join(" · ") || null
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {compiled.errors.map((error) => (
+        <View key={error.start} style={styles.error}>
+          <Text style={styles.errorTag}>
+            {source.slice(error.start, error.end)}
+          </Text>
+          <Text style={styles.errorText}>
+            {describePosition(source, error.start)}: {error.message}
+          </Text>
+        </View>
+      ))}
+
+      {compiled.chunks.map((chunk, index) => {
+        const meta = describeSettings(chunk);
+        return (
+          <View key={chunk.start}>
+            {chunk.pauseBeforeMs ? (
+              <Text style={styles.pause}>⏸ {chunk.pauseBeforeMs}ms</Text>
+            ) : null}
+            <View style={styles.segment}>
+              <Text style={styles.segmentIndex}>{index + 1}</Text>
+              <View style={styles.segmentBody}>
+                <Text style={styles.segmentText}>{chunk.text}</Text>
+                {meta ? <Text style={styles.segmentMeta}>{meta}</Text> : null}
+              </View>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  error: {
+    backgroundColor: "#FFEBEE",
+    borderLeftWidth: 3,
+    borderLeftColor: "#ff3b30",
+    borderRadius: 4,
+    padding: 8,
+  },
+  errorTag: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#ff3b30",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#333",
+    marginTop: 2,
+  },
+  pause: {
+    fontSize: 12,
+    color: "#666",
+    marginLeft: 28,
+    marginBottom: 4,
+  },
+  segment: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  segmentIndex: {
+    width: 20,
+    fontSize: 12,
+    color: "#666",
+    textAlign: "right",
+  },
+  segmentBody: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+    borderRadius: 6,
+    padding: 8,
+  },
+  segmentText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  segmentMeta: {
+    fontSize: 11,
+    color: "#007AFF",
+    marginTop: 4,
+  },
+});
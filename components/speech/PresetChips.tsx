@@ -0,0 +1,209 @@
+import { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import type { SpeechPreset } from "@/lib/speech/presets";
+
+type Props = {
+  presets: SpeechPreset[];
+  selectedId: string | null;
+  onSelect: (preset: SpeechPreset) => void;
+  /** 渡すと長押しで削除できる */
+  onDelete?: (preset: SpeechPreset) => void;
+  /** 渡すと「＋ 保存」から現在の設定を名前を付けて保存できる */
+  onSave?: (name: string) => void;
+};
+
+/** 読み上げプリセットをチップで並べ、タップで切り替える */
+export default function PresetChips({
+  presets,
+  selectedId,
+  onSelect,
+  onDelete,
+  onSave,
+}: Props) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const confirmDelete = (preset: SpeechPreset) => {
+    if (!onDelete) {
+      return;
+    }
+    Alert.alert("プリセットを削除", `「${preset.name}」を削除しますか？`, [
+      { text: "キャンセル", style: "cancel" },
+      { text: "削除", style: "destructive", onPress: () => onDelete(preset) },
+    ]);
+  };
+
+  const submitName = () => {
+    if (!name.trim()) {
+      Alert.alert("エラー", "プリセット名を入力してください");
+      return;
+    }
+    onSave?.(name);
+    setName("");
+    setIsNaming(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {presets.map((preset) => {
+          const selected = preset.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onSelect(preset)}
+              onLongPress={() => confirmDelete(preset)}
+            >
+              <Text
+                style={[styles.chipText, selected && styles.chipTextSelected]}
+              >
+                {preset.name}
+              </Text>
+              <Text
+                style={[styles.chipMeta, selected && styles.chipTextSelected]}
+              >
+                {preset.language} / {preset.rate.toFixed(1)}x
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        {onSave && !isNaming && (
+          <TouchableOpacity
+            style={[styles.chip, styles.addChip]}
+            onPress={() => setIsNaming(true)}
+          >
+            <Text style={styles.addChipText}>＋ 保存</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {isNaming && (
+        <View style={styles.nameRow}>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="プリセット名（例: ゆっくり日本語ナレーション）"
+            placeholderTextColor="#999"
+            autoFocus
+            onSubmitEditing={submitName}
+          />
+          <TouchableOpacity style={styles.saveButton} onPress={submitName}>
+            <Text style={styles.saveButtonText}>保存</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => {
+              setName("");
+              setIsNaming(false);
+            }}
+          >
+            <Text style={styles.cancelButtonText}>キャンセル</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {onDelete && presets.length > 0 && (
+        <Text style={styles.hint}>長押しでプリセットを削除できます</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#fafafa",
+  },
+  chipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+  },
+  chipMeta: {
+    fontSize: 10,
+    color: "#666",
+    marginTop: 2,
+  },
+  chipTextSelected: {
+    color: "#fff",
+  },
+  addChip: {
+    justifyContent: "center",
+    borderStyle: "dashed",
+    borderColor: "#007AFF",
+    backgroundColor: "#fff",
+  },
+  addChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    backgroundColor: "#fafafa",
+  },
+  saveButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  cancelButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 11,
+    color: "#666",
+  },
+});
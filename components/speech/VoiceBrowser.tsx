@@ -0,0 +1,246 @@
+import type * as Speech from "expo-speech";
+import { useMemo, useState } from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { speak } from "@/lib/speech/player";
+import { DEFAULT_SPEECH_SETTINGS } from "@/lib/speech/presets";
+import {
+  filterVoices,
+  groupVoicesByLanguage,
+  isEnhancedVoice,
+  sampleTextFor,
+} from "@/lib/speech/voices";
+
+type Props = {
+  voices: Speech.Voice[];
+  selectedVoice?: string;
+  /** この言語のグループを先頭に表示する */
+  preferredLanguage?: string;
+  favorites: string[];
+  onSelect: (voice: Speech.Voice) => void;
+  onToggleFavorite: (identifier: string) => void;
+};
+
+/** インストールされている音声を言語ごとに一覧し、検索・試聴・お気に入り登録する */
+export default function VoiceBrowser({
+  voices,
+  selectedVoice,
+  preferredLanguage,
+  favorites,
+  onSelect,
+  onToggleFavorite,
+}: Props) {
+  const [query, setQuery] = useState("");
+  const [enhancedOnly, setEnhancedOnly] = useState(false);
+
+  const filtered = useMemo(
+    () => filterVoices(voices, query, enhancedOnly),
+    [voices, query, enhancedOnly]
+  );
+  // お気に入りは先頭にまとめ、言語のグループからは外す
+  const pinned = filtered.filter((v) => favorites.includes(v.identifier));
+  const groups = useMemo(
+    () =>
+      groupVoicesByLanguage(
+        filtered.filter((v) => !favorites.includes(v.identifier)),
+        preferredLanguage
+      ),
+    [filtered, favorites, preferredLanguage]
+  );
+
+  // 共通の読み上げを通して試聴し、読み上げ中の状態や読み辞書を他の画面とそろえる
+  const preview = (voice: Speech.Voice) => {
+    speak(
+      sampleTextFor(voice.language),
+      {
+        ...DEFAULT_SPEECH_SETTINGS,
+        voice: voice.identifier,
+        language: voice.language,
+      },
+      {
+        onError: (error) => {
+          console.error("Voice preview error:", error);
+        },
+      }
+    );
+  };
+
+  const renderVoice = (voice: Speech.Voice) => {
+    const selected = selectedVoice === voice.identifier;
+    const favorite = favorites.includes(voice.identifier);
+    return (
+      <TouchableOpacity
+        key={voice.identifier}
+        style={[styles.voiceItem, selected && styles.voiceItemSelected]}
+        onPress={() => onSelect(voice)}
+      >
+        <View style={styles.voiceInfo}>
+          <Text style={styles.voiceName}>{voice.name}</Text>
+          <View style={styles.voiceMeta}>
+            <Text style={styles.voiceLanguage}>{voice.language}</Text>
+            {isEnhancedVoice(voice) && (
+              <Text style={styles.enhancedBadge}>Enhanced</Text>
+            )}
+          </View>
+        </View>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => onToggleFavorite(voice.identifier)}
+        >
+          <Text style={[styles.iconText, favorite && styles.favoriteIcon]}>
+            {favorite ? "★" : "☆"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => preview(voice)}
+        >
+          <Text style={styles.iconText}>▶︎</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={styles.searchInput}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="名前や言語コードで検索（例: Kyoko, en-GB）"
+        placeholderTextColor="#999"
+      />
+      <View style={styles.filterRow}>
+        <Text style={styles.filterLabel}>高音質 (Enhanced) のみ</Text>
+        <Switch value={enhancedOnly} onValueChange={setEnhancedOnly} />
+      </View>
+      <Text style={styles.countText}>
+        {filtered.length} / {voices.length} 件
+      </Text>
+
+      <ScrollView style={styles.voicesList} nestedScrollEnabled>
+        {pinned.length > 0 && (
+          <View>
+            <Text style={styles.groupTitle}>★ お気に入り</Text>
+            {pinned.map(renderVoice)}
+          </View>
+        )}
+        {groups.map((group) => (
+          <View key={group.language}>
+            <Text style={styles.groupTitle}>
+              {group.language} ({group.voices.length})
+            </Text>
+            {group.voices.map(renderVoice)}
+          </View>
+        ))}
+        {filtered.length === 0 && (
+          <Text style={styles.emptyText}>該当する音声がありません</Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  searchInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: "#fafafa",
+  },
+  filterRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  filterLabel: {
+    fontSize: 14,
+    color: "#333",
+  },
+  countText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 4,
+  },
+  voicesList: {
+    maxHeight: 320,
+    marginTop: 8,
+  },
+  groupTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#666",
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  voiceItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    marginBottom: 8,
+    backgroundColor: "#fafafa",
+  },
+  voiceItemSelected: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#007AFF",
+  },
+  voiceInfo: {
+    flex: 1,
+  },
+  voiceName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 4,
+  },
+  voiceMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  voiceLanguage: {
+    fontSize: 12,
+    color: "#666",
+  },
+  enhancedBadge: {
+    fontSize: 10,
+    fontWeight: "700",
+    color: "#fff",
+    backgroundColor: "#34C759",
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  iconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  iconText: {
+    fontSize: 18,
+    color: "#007AFF",
+  },
+  favoriteIcon: {
+    color: "#ff9500",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,31 @@
+import { RecordingPresets, useAudioRecorder } from "expo-audio";
+import { useCallback, useState } from "react";
+import { Alert } from "react-native";
+
+import { measureAmbientNoise, thresholdFromAmbient } from "@/lib/audio/silence";
+
+/**
+ * 周囲の雑音を測って無音判定のしきい値を求めるフック。
+ * 会話用の録音と混ざらないよう、測定には専用のレコーダーを使う。
+ */
+export function useAmbientCalibration() {
+  const recorder = useAudioRecorder(RecordingPresets.LOW_QUALITY);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  /** 測定したしきい値 (dBFS) を返す。失敗した場合は null */
+  const calibrate = useCallback(async (): Promise<number | null> => {
+    setIsCalibrating(true);
+    try {
+      const ambientDb = await measureAmbientNoise(recorder);
+      return thresholdFromAmbient(ambientDb);
+    } catch (error) {
+      console.error("Calibration error:", error);
+      Alert.alert("エラー", "周囲の音を測定できませんでした");
+      return null;
+    } finally {
+      setIsCalibrating(false);
+    }
+  }, [recorder]);
+
+  return { isCalibrating, calibrate };
+}
@@ -0,0 +1,19 @@
+import * as Speech from "expo-speech";
+import { useEffect, useState } from "react";
+
+/** 端末にインストールされている読み上げ音声の一覧を取得するフック */
+export function useAvailableVoices() {
+  const [voices, setVoices] = useState<Speech.Voice[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setVoices(await Speech.getAvailableVoicesAsync());
+      } catch (error) {
+        console.error("Error loading voices:", error);
+      }
+    })();
+  }, []);
+
+  return voices;
+}
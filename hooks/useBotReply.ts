@@ -0,0 +1,99 @@
+import { useCallback, useState } from "react";
+
+import { createBotReply } from "@/lib/chat/botReply";
+import { audioFieldsOf, createMessageId } from "@/lib/chat/messages";
+import type { VoiceMessage } from "@/lib/chat/types";
+import { loadApiKey } from "@/lib/gemini/apiKey";
+
+/** 1 件の録音に対する返答の状態。返答を追加し終えたら消える */
+export type BotReplyState =
+  | { status: "pending"; threadId: string; source: VoiceMessage }
+  | {
+      status: "error";
+      threadId: string;
+      message: string;
+      source: VoiceMessage;
+    };
+
+/** 元の録音のメッセージ ID ごとの返答の状態 */
+export type BotReplyStates = Record<string, BotReplyState>;
+
+type AddMessage = (
+  threadId: string,
+  message: VoiceMessage,
+  afterId?: string
+) => Promise<VoiceMessage | null>;
+
+/**
+ * ユーザーの録音に対する Bot の返答を生成し、スレッドに追加するフック。
+ * 返答待ち・エラーは元の録音ごとに持つので、複数の返答を同時に待てる
+ */
+export function useBotReply(addMessage: AddMessage) {
+  const [states, setStates] = useState<BotReplyStates>({});
+
+  const setReplyState = useCallback(
+    (sourceId: string, next: BotReplyState | null) => {
+      setStates((current) => {
+        const { [sourceId]: _removed, ...rest } = current;
+        return next ? { ...rest, [sourceId]: next } : rest;
+      });
+    },
+    []
+  );
+
+  const requestReply = useCallback(
+    async (threadId: string, source: VoiceMessage) => {
+      setReplyState(source.id, { status: "pending", threadId, source });
+
+      try {
+        const apiKey = await loadApiKey();
+        if (!apiKey.trim()) {
+          throw new Error(
+            "Gemini APIキーが設定されていません。Gemini画面で入力してください"
+          );
+        }
+
+        const reply = await createBotReply(apiKey, source.uri);
+        // 返答は元の録音の直後に入れる（作り直した場合も同じ位置に戻る）
+        await addMessage(
+          threadId,
+          {
+            id: createMessageId(),
+            uri: reply.uri,
+            from: "bot",
+            createdAt: Date.now(),
+            text: reply.text,
+            ...audioFieldsOf(reply.metadata),
+          },
+          source.id
+        );
+        setReplyState(source.id, null);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "不明なエラーが発生しました";
+        console.error("Bot reply error:", error);
+        setReplyState(source.id, { status: "error", threadId, message, source });
+      }
+    },
+    [addMessage, setReplyState]
+  );
+
+  const retry = useCallback(
+    (sourceId: string) => {
+      const state = states[sourceId];
+      if (state?.status === "error") {
+        requestReply(state.threadId, state.source);
+      }
+    },
+    [states, requestReply]
+  );
+
+  const dismissError = useCallback(
+    (sourceId: string) => {
+      setReplyState(sourceId, null);
+    },
+    [setReplyState]
+  );
+
+  return { states, requestReply, retry, dismissError };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  DEFAULT_CHAT_SETTINGS,
+  loadChatSettings,
+  saveChatSettings,
+  type ChatSettings,
+} from "@/lib/chat/settings";
+
+/** ボイスチャットの設定を読み込み、変更を即座に保存するフック */
+export function useChatSettings() {
+  const [settings, setSettings] = useState<ChatSettings>(DEFAULT_CHAT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    loadChatSettings().then((loaded) => {
+      settingsRef.current = loaded;
+      setSettings(loaded);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<ChatSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    saveChatSettings(next);
+  }, []);
+
+  return { settings, isLoaded, updateSettings };
+}
@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { deleteAudioFile } from "@/lib/audio/bytes";
+import {
+  deleteThreadFiles,
+  importAudioFile,
+  loadMessages,
+  loadThreadIndex,
+  saveMessages,
+  saveThreadIndex,
+  type ThreadIndex,
+} from "@/lib/chat/storage";
+import type { ChatThread, VoiceMessage } from "@/lib/chat/types";
+
+const DEFAULT_THREAD_TITLE = "新しい会話";
+
+const createThreadRecord = (title: string): ChatThread => {
+  const now = Date.now();
+  return {
+    id: now.toString(36) + Math.random().toString(36).slice(2, 6),
+    title,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * afterId のメッセージ（と直後に続く Bot の返答）の後ろに message を入れる。
+ * afterId が見つからなければ末尾に追加する。
+ */
+const insertMessage = (
+  list: VoiceMessage[],
+  message: VoiceMessage,
+  afterId?: string
+) => {
+  const index = afterId ? list.findIndex((m) => m.id === afterId) : -1;
+  if (index < 0) {
+    return [...list, message];
+  }
+  let position = index + 1;
+  while (position < list.length && list[position].from === "bot") {
+    position++;
+  }
+  return [...list.slice(0, position), message, ...list.slice(position)];
+};
+
+/**
+ * 会話スレッドとメッセージをディスクに永続化しながら管理するフック。
+ * 状態は ref にも保持し、非同期処理から追加されたメッセージも取りこぼさない。
+ */
+export function useChatThreads() {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<VoiceMessage[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const indexRef = useRef<ThreadIndex>({ activeThreadId: null, threads: [] });
+  const messagesRef = useRef<VoiceMessage[]>([]);
+  // messagesRef がどのスレッドのメッセージか。切り替えて読み込み終えるまでは null
+  const loadedThreadIdRef = useRef<string | null>(null);
+  // スレッドごとの読み込み・書き換えを順番に実行する（後の処理が古い一覧で上書きしないように）
+  const threadTasksRef = useRef(new Map<string, Promise<unknown>>());
+
+  const runInThread = useCallback(
+    <T,>(threadId: string, task: () => Promise<T>): Promise<T> => {
+      const tasks = threadTasksRef.current;
+      const previous = tasks.get(threadId) ?? Promise.resolve();
+      const next = previous.catch(() => {}).then(task);
+      tasks.set(threadId, next);
+      next
+        .catch(() => {})
+        .then(() => {
+          if (tasks.get(threadId) === next) {
+            tasks.delete(threadId);
+          }
+        });
+      return next;
+    },
+    []
+  );
+
+  /** スレッドのメッセージ。表示中で読み込み済みならメモリの一覧を、そうでなければファイルを読む */
+  const readMessages = useCallback(
+    async (threadId: string) =>
+      loadedThreadIdRef.current === threadId
+        ? messagesRef.current
+        : loadMessages(threadId),
+    []
+  );
+
+  const commitIndex = useCallback((index: ThreadIndex) => {
+    // 表示するスレッドが変わったら、読み込み終えるまで前のスレッドの一覧を使わない
+    if (index.activeThreadId !== indexRef.current.activeThreadId) {
+      loadedThreadIdRef.current = null;
+      messagesRef.current = [];
+      setMessages([]);
+    }
+    indexRef.current = index;
+    setThreads(index.threads);
+    setActiveThreadId(index.activeThreadId);
+    saveThreadIndex(index);
+  }, []);
+
+  const commitMessages = useCallback(
+    (threadId: string, next: VoiceMessage[]) => {
+      saveMessages(threadId, next);
+      if (indexRef.current.activeThreadId === threadId) {
+        loadedThreadIdRef.current = threadId;
+        messagesRef.current = next;
+        setMessages(next);
+      }
+    },
+    []
+  );
+
+  /** 表示中のスレッドのメッセージを読み込む */
+  const showThreadMessages = useCallback(
+    (threadId: string) =>
+      runInThread(threadId, async () => {
+        if (loadedThreadIdRef.current === threadId) {
+          return;
+        }
+        const loaded = await loadMessages(threadId);
+        if (indexRef.current.activeThreadId === threadId) {
+          loadedThreadIdRef.current = threadId;
+          messagesRef.current = loaded;
+          setMessages(loaded);
+        }
+      }),
+    [runInThread]
+  );
+
+  // 起動時にスレッド一覧と最後に開いていたスレッドを復元
+  useEffect(() => {
+    (async () => {
+      const index = await loadThreadIndex();
+      if (index.threads.length === 0) {
+        const thread = createThreadRecord(DEFAULT_THREAD_TITLE);
+        index.threads = [thread];
+        index.activeThreadId = thread.id;
+      }
+      if (
+        !index.activeThreadId ||
+        !index.threads.some((t) => t.id === index.activeThreadId)
+      ) {
+        index.activeThreadId = index.threads[0].id;
+      }
+
+      commitIndex(index);
+      await showThreadMessages(index.activeThreadId);
+      setIsLoaded(true);
+    })().catch((error) => {
+      console.error("Failed to load chat threads:", error);
+    });
+  }, [commitIndex, showThreadMessages]);
+
+  const selectThread = useCallback(
+    async (threadId: string) => {
+      commitIndex({ ...indexRef.current, activeThreadId: threadId });
+      await showThreadMessages(threadId);
+    },
+    [commitIndex, showThreadMessages]
+  );
+
+  const createThread = useCallback(
+    (title: string = DEFAULT_THREAD_TITLE) => {
+      const thread = createThreadRecord(title.trim() || DEFAULT_THREAD_TITLE);
+      commitIndex({
+        activeThreadId: thread.id,
+        threads: [thread, ...indexRef.current.threads],
+      });
+      loadedThreadIdRef.current = thread.id;
+      return thread;
+    },
+    [commitIndex]
+  );
+
+  const renameThread = useCallback(
+    (threadId: string, title: string) => {
+      const trimmed = title.trim();
+      if (!trimmed) {
+        return;
+      }
+      commitIndex({
+        ...indexRef.current,
+        threads: indexRef.current.threads.map((t) =>
+          t.id === threadId ? { ...t, title: trimmed, updatedAt: Date.now() } : t
+        ),
+      });
+    },
+    [commitIndex]
+  );
+
+  const deleteThread = useCallback(
+    async (threadId: string) => {
+      deleteThreadFiles(threadId);
+
+      let remaining = indexRef.current.threads.filter((t) => t.id !== threadId);
+      if (remaining.length === 0) {
+        remaining = [createThreadRecord(DEFAULT_THREAD_TITLE)];
+      }
+
+      const wasActive = indexRef.current.activeThreadId === threadId;
+      const activeId = wasActive
+        ? remaining[0].id
+        : indexRef.current.activeThreadId;
+      commitIndex({ activeThreadId: activeId, threads: remaining });
+
+      if (wasActive && activeId) {
+        await showThreadMessages(activeId);
+      }
+    },
+    [commitIndex, showThreadMessages]
+  );
+
+  const touchThread = useCallback(
+    (threadId: string) => {
+      commitIndex({
+        ...indexRef.current,
+        threads: indexRef.current.threads.map((t) =>
+          t.id === threadId ? { ...t, updatedAt: Date.now() } : t
+        ),
+      });
+    },
+    [commitIndex]
+  );
+
+  /**
+   * メッセージを指定スレッドに追加する。録音ファイルはスレッドの
+   * ディレクトリへ移動され、移動後の URI を持つメッセージを返す。
+   * スレッドが既に削除されている場合は何もせず null を返す。
+   * afterId を渡すとそのメッセージへの返答として直後に挿入する。
+   */
+  const addMessage = useCallback(
+    (threadId: string, message: VoiceMessage, afterId?: string) =>
+      runInThread(threadId, async () => {
+        if (!indexRef.current.threads.some((t) => t.id === threadId)) {
+          return null;
+        }
+
+        const stored: VoiceMessage = {
+          ...message,
+          uri: importAudioFile(threadId, message.uri, message.id),
+        };
+
+        const current = await readMessages(threadId);
+        commitMessages(threadId, insertMessage(current, stored, afterId));
+        touchThread(threadId);
+        return stored;
+      }),
+    [runInThread, readMessages, commitMessages, touchThread]
+  );
+
+  /**
+   * メッセージを新しい録音に差し替える（録り直し）。
+   * 一覧の位置はそのままで、古い録音ファイルは削除する。
+   */
+  const replaceMessage = useCallback(
+    (threadId: string, messageId: string, message: VoiceMessage) =>
+      runInThread(threadId, async () => {
+        const current = await readMessages(threadId);
+        const old = current.find((m) => m.id === messageId);
+        if (!old) {
+          return null;
+        }
+
+        const stored: VoiceMessage = {
+          ...message,
+          uri: importAudioFile(threadId, message.uri, message.id),
+        };
+        commitMessages(
+          threadId,
+          current.map((m) => (m.id === messageId ? stored : m))
+        );
+        deleteAudioFile(old.uri);
+        touchThread(threadId);
+        return stored;
+      }),
+    [runInThread, readMessages, commitMessages, touchThread]
+  );
+
+  /** メッセージと録音ファイルを削除する */
+  const deleteMessage = useCallback(
+    (threadId: string, messageId: string) =>
+      runInThread(threadId, async () => {
+        const current = await readMessages(threadId);
+        const target = current.find((m) => m.id === messageId);
+        if (!target) {
+          return;
+        }
+        commitMessages(threadId, current.filter((m) => m.id !== messageId));
+        deleteAudioFile(target.uri);
+      }),
+    [runInThread, readMessages, commitMessages]
+  );
+
+  /** 指定スレッドのメッセージの一部の項目を書き換える */
+  const updateMessage = useCallback(
+    (
+      threadId: string,
+      messageId: string,
+      changes: Partial<Omit<VoiceMessage, "id">>
+    ) =>
+      runInThread(threadId, async () => {
+        const current = await readMessages(threadId);
+        if (!current.some((m) => m.id === messageId)) {
+          return;
+        }
+        commitMessages(
+          threadId,
+          current.map((m) => (m.id === messageId ? { ...m, ...changes } : m))
+        );
+      }),
+    [runInThread, readMessages, commitMessages]
+  );
+
+  const activeThread = threads.find((t) => t.id === activeThreadId) ?? null;
+
+  return {
+    threads,
+    activeThread,
+    activeThreadId,
+    messages,
+    isLoaded,
+    selectThread,
+    createThread,
+    renameThread,
+    deleteThread,
+    addMessage,
+    replaceMessage,
+    deleteMessage,
+    updateMessage,
+  };
+}
@@ -0,0 +1,59 @@
+import { useCallback, useRef, useState } from "react";
+import { Alert } from "react-native";
+
+import {
+  exportMessages,
+  shareExport,
+  type ExportedMessageRef,
+} from "@/lib/chat/export";
+import type { VoiceMessage } from "@/lib/chat/types";
+
+const formatRefs = (refs: ExportedMessageRef[]) =>
+  refs.map(({ index, speaker }) => `${index}. ${speaker}`).join("、");
+
+/** 会話やメッセージを ZIP に書き出して共有シートを開くフック */
+export function useConversationExport() {
+  const [isExporting, setIsExporting] = useState(false);
+  const isExportingRef = useRef(false);
+
+  const exportAndShare = useCallback(
+    async (title: string, messages: VoiceMessage[]) => {
+      if (isExportingRef.current) {
+        return;
+      }
+      isExportingRef.current = true;
+      setIsExporting(true);
+      try {
+        const result = await exportMessages(title, messages);
+        const { missing, undecodable } = result;
+        // 含められなかった音声があれば、黙って欠けた書き出しにせずに伝える
+        const notes: string[] = [];
+        if (missing.length > 0) {
+          notes.push(
+            `次のメッセージは音声ファイルを読み込めなかったため、ZIP に含まれていません。\n${formatRefs(missing)}`
+          );
+        }
+        if (undecodable.length > 0) {
+          notes.push(
+            `この端末ではデコードできない形式（AAC など）の音声があるため、結合した音声 (conversation.wav) は作成されませんでした。元の音声は ZIP の messages フォルダにあります。\n${formatRefs(undecodable)}`
+          );
+        }
+        if (notes.length > 0) {
+          Alert.alert("書き出せなかった音声", notes.join("\n\n"));
+        }
+        await shareExport(result, title);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "書き出しに失敗しました";
+        Alert.alert("エラー", errorMessage);
+        console.error("Export error:", error);
+      } finally {
+        isExportingRef.current = false;
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  return { isExporting, exportAndShare };
+}
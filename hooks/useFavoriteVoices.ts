@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { loadFavoriteVoices, saveFavoriteVoices } from "@/lib/speech/voices";
+
+/** お気に入りの音声（identifier の一覧）を読み込み、変更を保存するフック */
+export function useFavoriteVoices() {
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const favoritesRef = useRef(favorites);
+
+  useEffect(() => {
+    loadFavoriteVoices().then((loaded) => {
+      favoritesRef.current = loaded;
+      setFavorites(loaded);
+    });
+  }, []);
+
+  const toggleFavorite = useCallback((identifier: string) => {
+    const current = favoritesRef.current;
+    const next = current.includes(identifier)
+      ? current.filter((id) => id !== identifier)
+      : [...current, identifier];
+    favoritesRef.current = next;
+    setFavorites(next);
+    saveFavoriteVoices(next);
+  }, []);
+
+  return { favorites, toggleFavorite };
+}
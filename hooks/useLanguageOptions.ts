@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  loadLanguageOptions,
+  saveLanguageOptions,
+  type LanguageOptions,
+} from "@/lib/speech/languages";
+
+/** 言語の自動判定などの設定を読み込み、変更を保存するフック */
+export function useLanguageOptions() {
+  const [options, setOptions] = useState<LanguageOptions>({
+    autoDetect: false,
+  });
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    loadLanguageOptions().then((loaded) => {
+      optionsRef.current = loaded;
+      setOptions(loaded);
+    });
+  }, []);
+
+  const updateOptions = useCallback((changes: Partial<LanguageOptions>) => {
+    const next = { ...optionsRef.current, ...changes };
+    optionsRef.current = next;
+    setOptions(next);
+    saveLanguageOptions(next);
+  }, []);
+
+  return { options, updateOptions };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+
+import {
+  ensureLexiconLoaded,
+  getLexicon,
+  saveLexicon,
+  subscribeLexicon,
+  type LexiconEntry,
+} from "@/lib/speech/lexicon";
+
+/** 読み辞書を購読し、追加・編集・削除・読み込みを保存するフック */
+export function useLexicon() {
+  const entries = useSyncExternalStore(subscribeLexicon, getLexicon);
+
+  useEffect(() => {
+    ensureLexiconLoaded();
+  }, []);
+
+  /** 同じ id があれば置き換え、なければ末尾に追加する */
+  const saveEntry = useCallback((entry: LexiconEntry) => {
+    const current = getLexicon();
+    saveLexicon(
+      current.some((e) => e.id === entry.id)
+        ? current.map((e) => (e.id === entry.id ? entry : e))
+        : [...current, entry]
+    );
+  }, []);
+
+  const deleteEntry = useCallback((id: string) => {
+    saveLexicon(getLexicon().filter((e) => e.id !== id));
+  }, []);
+
+  /**
+   * 読み込んだ項目を反映する。replace でなければ既存の辞書に追加し、
+   * 同じ表記・言語の項目は読み込んだ内容で上書きする。
+   */
+  const importEntries = useCallback(
+    (imported: LexiconEntry[], replace: boolean) => {
+      if (replace) {
+        saveLexicon(imported);
+        return;
+      }
+      const keyOf = (e: LexiconEntry) => `${e.language ?? ""}\n${e.surface}`;
+      const importedKeys = new Set(imported.map(keyOf));
+      saveLexicon([
+        ...getLexicon().filter((e) => !importedKeys.has(keyOf(e))),
+        ...imported,
+      ]);
+    },
+    []
+  );
+
+  return { entries, saveEntry, deleteEntry, importEntries };
+}
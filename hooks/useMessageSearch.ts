@@ -0,0 +1,52 @@
+import { useMemo, useState } from "react";
+
+import type { VoiceMessage } from "@/lib/chat/types";
+
+/** 検索の対象にするテキスト（ユーザーの文字起こしと Bot の返答） */
+const searchableTextOf = (message: VoiceMessage) =>
+  [message.transcript, message.text].filter(Boolean).join("\n").toLowerCase();
+
+/** 会話の文字起こしを全文検索し、一致したメッセージを順に選ぶフック */
+export function useMessageSearch(messages: VoiceMessage[]) {
+  const [query, setQuery] = useState("");
+  const [cursor, setCursor] = useState(0);
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+    return messages
+      .map((message, index) => ({ id: message.id, index }))
+      .filter(({ index }) => searchableTextOf(messages[index]).includes(needle));
+  }, [messages, query]);
+
+  // 一致件数が減っても範囲内に収める
+  const current =
+    matches.length > 0 ? matches[Math.min(cursor, matches.length - 1)] : null;
+
+  const changeQuery = (next: string) => {
+    setQuery(next);
+    setCursor(0);
+  };
+
+  const move = (step: number) => {
+    if (matches.length === 0) {
+      return;
+    }
+    const position = Math.min(cursor, matches.length - 1);
+    setCursor((position + step + matches.length) % matches.length);
+  };
+
+  return {
+    query,
+    setQuery: changeQuery,
+    matchCount: matches.length,
+    /** 現在のヒットが何件目か (1 始まり、ヒットなしなら 0) */
+    position: current ? Math.min(cursor, matches.length - 1) + 1 : 0,
+    currentId: current?.id ?? null,
+    currentIndex: current?.index ?? null,
+    next: () => move(1),
+    previous: () => move(-1),
+  };
+}
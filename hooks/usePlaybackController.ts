@@ -0,0 +1,201 @@
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { VoiceMessage } from "@/lib/chat/types";
+
+// 終端からこの秒数以内で止まっていれば「再生し終わった」とみなす
+const END_TOLERANCE_SEC = 0.05;
+
+export const PLAYBACK_RATES = [1, 1.5, 2] as const;
+
+export type PlaybackMemory = Pick<
+  VoiceMessage,
+  "playbackPosition" | "playbackRate"
+>;
+
+/**
+ * チャット全体で 1 つのプレイヤーを共有する再生コントローラー。
+ * 別のメッセージを再生すると前のメッセージは自動的に止まる。
+ * 一時停止位置と再生速度はメッセージごとに onRemember で保存される。
+ */
+export function usePlaybackController(
+  messages: VoiceMessage[],
+  autoPlay: boolean,
+  onRemember: (message: VoiceMessage, memory: PlaybackMemory) => void
+) {
+  const player = useAudioPlayer(null);
+  const status = useAudioPlayerStatus(player);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+
+  const currentIdRef = useRef<string | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const onRememberRef = useRef(onRemember);
+  onRememberRef.current = onRemember;
+  // 読み込み完了後に適用する再開位置
+  const pendingResumeRef = useRef<{ position: number; play: boolean } | null>(
+    null
+  );
+
+  const findMessage = (id: string | null) =>
+    id ? messagesRef.current.find((m) => m.id === id) : undefined;
+
+  const rememberPosition = useCallback(
+    (message: VoiceMessage | undefined, position: number) => {
+      if (!message) {
+        return;
+      }
+      const ended =
+        player.duration > 0 && position >= player.duration - END_TOLERANCE_SEC;
+      onRememberRef.current(message, {
+        playbackPosition: ended ? 0 : position,
+      });
+    },
+    [player]
+  );
+
+  const load = useCallback(
+    (message: VoiceMessage, play: boolean) => {
+      if (currentIdRef.current === message.id) {
+        if (play) {
+          player.play();
+        }
+        return;
+      }
+
+      // 切り替える前に今のメッセージの位置を覚えておく
+      rememberPosition(findMessage(currentIdRef.current), player.currentTime);
+
+      player.replace(message.uri);
+      player.shouldCorrectPitch = true;
+      player.setPlaybackRate(message.playbackRate ?? 1, "high");
+      currentIdRef.current = message.id;
+      setCurrentId(message.id);
+
+      const position = message.playbackPosition ?? 0;
+      if (position > 0) {
+        pendingResumeRef.current = { position, play };
+      } else if (play) {
+        player.play();
+      }
+    },
+    [player, rememberPosition]
+  );
+
+  // 差し替えたソースの読み込みが終わったら、覚えていた位置から再開する
+  useEffect(() => {
+    const subscription = player.addListener("playbackStatusUpdate", (s) => {
+      const pending = pendingResumeRef.current;
+      if (!pending || !s.isLoaded) {
+        return;
+      }
+      pendingResumeRef.current = null;
+      player.seekTo(pending.position).then(() => {
+        if (pending.play) {
+          player.play();
+        }
+      });
+    });
+    return () => subscription.remove();
+  }, [player]);
+
+  const stop = useCallback(
+    (remember: boolean = true) => {
+      if (remember) {
+        rememberPosition(findMessage(currentIdRef.current), player.currentTime);
+      }
+      player.pause();
+      pendingResumeRef.current = null;
+      currentIdRef.current = null;
+      setCurrentId(null);
+    },
+    [player, rememberPosition]
+  );
+
+  const togglePlay = useCallback(
+    (message: VoiceMessage) => {
+      if (currentIdRef.current !== message.id) {
+        load(message, true);
+        return;
+      }
+      if (player.playing) {
+        player.pause();
+        rememberPosition(message, player.currentTime);
+        return;
+      }
+      if (
+        player.duration > 0 &&
+        player.currentTime >= player.duration - END_TOLERANCE_SEC
+      ) {
+        player.seekTo(0);
+      }
+      player.play();
+    },
+    [load, player, rememberPosition]
+  );
+
+  const seek = useCallback(
+    (message: VoiceMessage, seconds: number) => {
+      if (currentIdRef.current === message.id) {
+        player.seekTo(seconds);
+        if (!player.playing) {
+          rememberPosition(message, seconds);
+        }
+        return;
+      }
+      load({ ...message, playbackPosition: seconds }, true);
+    },
+    [load, player, rememberPosition]
+  );
+
+  /** 1x → 1.5x → 2x → 1x の順に速度を切り替える（ピッチは維持） */
+  const cycleRate = useCallback(
+    (message: VoiceMessage) => {
+      const rate = message.playbackRate ?? 1;
+      const index = PLAYBACK_RATES.findIndex((r) => r === rate);
+      const next = PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length];
+      if (currentIdRef.current === message.id) {
+        player.shouldCorrectPitch = true;
+        player.setPlaybackRate(next, "high");
+      }
+      onRememberRef.current(message, { playbackRate: next });
+    },
+    [player]
+  );
+
+  // 再生が終わったら位置をリセットし、自動再生が有効なら次の Bot メッセージを再生する
+  useEffect(() => {
+    if (!status.didJustFinish || !currentIdRef.current) {
+      return;
+    }
+    const list = messagesRef.current;
+    const index = list.findIndex((m) => m.id === currentIdRef.current);
+    if (index < 0) {
+      return;
+    }
+    onRememberRef.current(list[index], { playbackPosition: 0 });
+
+    const next = autoPlay
+      ? list.slice(index + 1).find((m) => m.from === "bot")
+      : undefined;
+    if (next) {
+      load({ ...next, playbackPosition: 0 }, true);
+    }
+  }, [status.didJustFinish, autoPlay, load]);
+
+  // 再生中のメッセージが一覧から消えたら（スレッド切り替え・削除）止める
+  useEffect(() => {
+    if (currentId && !messages.some((m) => m.id === currentId)) {
+      stop(false);
+    }
+  }, [messages, currentId, stop]);
+
+  return {
+    currentId,
+    status,
+    togglePlay,
+    seek,
+    cycleRate,
+    stop,
+  };
+}
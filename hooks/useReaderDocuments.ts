@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+
+import {
+  createReaderId,
+  deleteReaderContent,
+  ensureReaderDocumentsLoaded,
+  getReaderDocuments,
+  importReaderDocument,
+  saveReaderDocuments,
+  subscribeReaderDocuments,
+} from "@/lib/reader/library";
+import type { ReaderDocument } from "@/lib/reader/types";
+
+/** 取り込んだ文書の一覧を購読し、読んだ位置やしおりの変更を保存するフック */
+export function useReaderDocuments() {
+  const documents = useSyncExternalStore(
+    subscribeReaderDocuments,
+    getReaderDocuments
+  );
+
+  useEffect(() => {
+    ensureReaderDocumentsLoaded();
+  }, []);
+
+  const updateDocument = useCallback(
+    (id: string, changes: Partial<ReaderDocument>) => {
+      saveReaderDocuments(
+        getReaderDocuments().map((d) => (d.id === id ? { ...d, ...changes } : d))
+      );
+    },
+    []
+  );
+
+  const deleteDocument = useCallback((id: string) => {
+    saveReaderDocuments(getReaderDocuments().filter((d) => d.id !== id));
+    deleteReaderContent(id);
+  }, []);
+
+  /** 同じ位置にしおりがあれば追加しない */
+  const addBookmark = useCallback(
+    (id: string, position: number, excerpt: string) => {
+      const target = getReaderDocuments().find((d) => d.id === id);
+      if (!target || target.bookmarks.some((b) => b.position === position)) {
+        return;
+      }
+      const bookmarks = [
+        ...target.bookmarks,
+        { id: createReaderId(), position, excerpt, createdAt: Date.now() },
+      ].sort((a, b) => a.position - b.position);
+      updateDocument(id, { bookmarks });
+    },
+    [updateDocument]
+  );
+
+  const deleteBookmark = useCallback(
+    (id: string, bookmarkId: string) => {
+      const target = getReaderDocuments().find((d) => d.id === id);
+      if (target) {
+        updateDocument(id, {
+          bookmarks: target.bookmarks.filter((b) => b.id !== bookmarkId),
+        });
+      }
+    },
+    [updateDocument]
+  );
+
+  return {
+    documents,
+    importDocument: importReaderDocument,
+    updateDocument,
+    deleteDocument,
+    addBookmark,
+    deleteBookmark,
+  };
+}
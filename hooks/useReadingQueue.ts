@@ -0,0 +1,44 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import {
+  addToQueue,
+  clearQueue,
+  ensureQueueLoaded,
+  getQueueState,
+  moveQueueItem,
+  playQueue,
+  removeFromQueue,
+  setQueueGap,
+  setQueueRepeat,
+  skipQueueItem,
+  stopQueue,
+  subscribeQueue,
+  updateQueueItem,
+} from "@/lib/speech/queue";
+
+/**
+ * アプリ全体で共有している読み上げキューを購読するフック。
+ * TTS・Gemini・ボイスチャットのどこから追加しても同じキューに入る。
+ */
+export function useReadingQueue() {
+  const state = useSyncExternalStore(subscribeQueue, getQueueState);
+
+  useEffect(() => {
+    ensureQueueLoaded();
+  }, []);
+
+  return {
+    ...state,
+    add: addToQueue,
+    update: updateQueueItem,
+    remove: removeFromQueue,
+    move: moveQueueItem,
+    clear: clearQueue,
+    setRepeat: setQueueRepeat,
+    setGap: setQueueGap,
+    play: playQueue,
+    stop: stopQueue,
+    next: () => skipQueueItem(1),
+    previous: () => skipQueueItem(-1),
+  };
+}
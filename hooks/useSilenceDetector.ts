@@ -0,0 +1,111 @@
+import type { RecorderState } from "expo-audio";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// 話し始めの直前もこの長さだけ残して先頭の無音を削る
+const PRE_ROLL_MS = 200;
+// 一時停止や描画の遅れで間隔が空いても一度に進める時間の上限
+const MAX_TICK_MS = 500;
+
+type Options = {
+  enabled: boolean;
+  thresholdDb: number;
+  silenceSec: number;
+  /** 話し始めたあと silenceSec 秒無音が続いたら一度だけ呼ばれる */
+  onSilence: () => void;
+};
+
+type DetectorState = {
+  lastTickAt: number | null;
+  // 一時停止を除いた録音時間
+  elapsedMs: number;
+  speechStartMs: number | null;
+  silentMs: number;
+  fired: boolean;
+};
+
+const initialState = (): DetectorState => ({
+  lastTickAt: null,
+  elapsedMs: 0,
+  speechStartMs: null,
+  silentMs: 0,
+  fired: false,
+});
+
+/**
+ * レコーダーのメータリングから発話の有無を判定するフック。
+ * 話し始める前の無音では止めず、話し終えてからの無音だけを数える。
+ */
+export function useSilenceDetector(
+  recorderState: RecorderState,
+  { enabled, thresholdDb, silenceSec, onSilence }: Options
+) {
+  const [silentMs, setSilentMs] = useState(0);
+  const [hasSpeech, setHasSpeech] = useState(false);
+  const stateRef = useRef<DetectorState>(initialState());
+  const onSilenceRef = useRef(onSilence);
+  onSilenceRef.current = onSilence;
+
+  /** 新しい録音を始めるときに呼ぶ */
+  const reset = useCallback(() => {
+    stateRef.current = initialState();
+    setSilentMs(0);
+    setHasSpeech(false);
+  }, []);
+
+  /** 先頭の無音の長さ（秒）。まだ話していなければ 0 */
+  const leadingSilenceSec = useCallback(() => {
+    const { speechStartMs } = stateRef.current;
+    return speechStartMs === null
+      ? 0
+      : Math.max(0, speechStartMs - PRE_ROLL_MS) / 1000;
+  }, []);
+
+  useEffect(() => {
+    const state = stateRef.current;
+    if (!recorderState.isRecording) {
+      // 一時停止中の時間は数えない
+      state.lastTickAt = null;
+      return;
+    }
+
+    const now = Date.now();
+    const delta =
+      state.lastTickAt === null
+        ? 0
+        : Math.min(MAX_TICK_MS, now - state.lastTickAt);
+    state.lastTickAt = now;
+    state.elapsedMs += delta;
+
+    const db = recorderState.metering;
+    const isSpeech = db !== undefined && Number.isFinite(db) && db > thresholdDb;
+    if (isSpeech) {
+      if (state.speechStartMs === null) {
+        state.speechStartMs = state.elapsedMs;
+        setHasSpeech(true);
+      }
+      state.silentMs = 0;
+    } else if (state.speechStartMs !== null) {
+      state.silentMs += delta;
+    }
+    setSilentMs(state.silentMs);
+
+    if (
+      enabled &&
+      !state.fired &&
+      state.speechStartMs !== null &&
+      state.silentMs >= silenceSec * 1000
+    ) {
+      state.fired = true;
+      onSilenceRef.current();
+    }
+  }, [
+    recorderState.isRecording,
+    recorderState.durationMillis,
+    recorderState.metering,
+    enabled,
+    thresholdDb,
+    silenceSec,
+  ]);
+
+  return { hasSpeech, silentMs, reset, leadingSilenceSec };
+}
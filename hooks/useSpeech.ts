@@ -0,0 +1,42 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { ensureLexiconLoaded } from "@/lib/speech/lexicon";
+import {
+  getSpeechState,
+  pause,
+  resume,
+  skipNext,
+  skipPrevious,
+  speak,
+  speakChunks,
+  stop,
+  subscribeSpeech,
+} from "@/lib/speech/player";
+
+/**
+ * アプリ全体で共有している読み上げの状態を購読するフック。
+ * どの画面から読み上げを始めても同じ状態が反映される。
+ */
+export function useSpeech() {
+  const state = useSyncExternalStore(subscribeSpeech, getSpeechState);
+
+  // 読み上げ前に読み辞書を当てはめるので、先に読み込んでおく
+  useEffect(() => {
+    ensureLexiconLoaded();
+  }, []);
+
+  return {
+    ...state,
+    /** 一時停止中も含めて読み上げの途中かどうか */
+    isActive: state.status !== "idle",
+    isSpeaking: state.status === "speaking",
+    isPaused: state.status === "paused",
+    speak,
+    speakChunks,
+    stop,
+    pause,
+    resume,
+    next: skipNext,
+    previous: skipPrevious,
+  };
+}
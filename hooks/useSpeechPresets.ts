@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+
+import {
+  createPresetId,
+  ensureSpeechPresetsLoaded,
+  getSpeechPresetsState,
+  saveSpeechPresets,
+  subscribeSpeechPresets,
+  toSpeechSettings,
+  type SpeechPreset,
+  type SpeechSettings,
+} from "@/lib/speech/presets";
+
+/** 読み上げプリセットと最後に選んだプリセットを購読し、変更を保存するフック */
+export function useSpeechPresets() {
+  const stored = useSyncExternalStore(
+    subscribeSpeechPresets,
+    getSpeechPresetsState
+  );
+
+  useEffect(() => {
+    ensureSpeechPresetsLoaded();
+  }, []);
+
+  /** 現在の設定を名前を付けて保存する。同じ名前があれば上書きする */
+  const savePreset = useCallback(
+    (name: string, settings: SpeechSettings) => {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        return null;
+      }
+      const current = getSpeechPresetsState();
+      const existing = current.presets.find((p) => p.name === trimmed);
+      const preset: SpeechPreset = {
+        id: existing?.id ?? createPresetId(),
+        name: trimmed,
+        ...toSpeechSettings(settings),
+      };
+      saveSpeechPresets({
+        presets: existing
+          ? current.presets.map((p) => (p.id === existing.id ? preset : p))
+          : [...current.presets, preset],
+        activePresetId: preset.id,
+      });
+      return preset;
+    },
+    []
+  );
+
+  const deletePreset = useCallback((id: string) => {
+    const current = getSpeechPresetsState();
+    saveSpeechPresets({
+      presets: current.presets.filter((p) => p.id !== id),
+      activePresetId:
+        current.activePresetId === id ? null : current.activePresetId,
+    });
+  }, []);
+
+  const selectPreset = useCallback((id: string | null) => {
+    const { presets } = getSpeechPresetsState();
+    saveSpeechPresets({ presets, activePresetId: id });
+  }, []);
+
+  const activePreset =
+    stored.presets.find((p) => p.id === stored.activePresetId) ?? null;
+
+  return {
+    presets: stored.presets,
+    activePreset,
+    isLoaded: stored.isLoaded,
+    savePreset,
+    deletePreset,
+    selectPreset,
+  };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { VoiceMessage } from "@/lib/chat/types";
+import {
+  findTranscriptionProvider,
+  type TranscriptionProviderId,
+} from "@/lib/transcription";
+
+type UpdateMessage = (
+  threadId: string,
+  messageId: string,
+  changes: Partial<Omit<VoiceMessage, "id">>
+) => Promise<void>;
+
+const needsTranscript = (message: VoiceMessage) =>
+  message.from === "user" &&
+  message.transcript === undefined &&
+  !message.transcriptError;
+
+/**
+ * 表示中のスレッドのユーザーの録音を、バックグラウンドで 1 件ずつ文字起こしするフック。
+ * 結果はメッセージの transcript に保存される。
+ */
+export function useTranscription(
+  threadId: string | null,
+  messages: VoiceMessage[],
+  providerId: TranscriptionProviderId | null,
+  updateMessage: UpdateMessage
+) {
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const inFlightRef = useRef(false);
+
+  useEffect(() => {
+    if (!threadId || !providerId || inFlightRef.current) {
+      return;
+    }
+    const target = messages.find(needsTranscript);
+    if (!target) {
+      return;
+    }
+
+    const provider = findTranscriptionProvider(providerId);
+    inFlightRef.current = true;
+    setTranscribingId(target.id);
+    (async () => {
+      try {
+        const transcript = await provider.transcribe(target.uri);
+        await updateMessage(threadId, target.id, {
+          transcript,
+          transcriptError: undefined,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "不明なエラーが発生しました";
+        console.error("Transcription error:", error);
+        await updateMessage(threadId, target.id, { transcriptError: message });
+      } finally {
+        inFlightRef.current = false;
+        // 状態を変えて次のメッセージの処理を促す
+        setTranscribingId(null);
+      }
+    })();
+  }, [threadId, messages, providerId, updateMessage, transcribingId]);
+
+  /** 失敗した文字起こしをやり直す */
+  const retry = useCallback(
+    (message: VoiceMessage) => {
+      if (threadId) {
+        updateMessage(threadId, message.id, { transcriptError: undefined });
+      }
+    },
+    [threadId, updateMessage]
+  );
+
+  /** 文字起こしを手で直す */
+  const edit = useCallback(
+    (message: VoiceMessage, transcript: string) => {
+      if (threadId) {
+        updateMessage(threadId, message.id, {
+          transcript: transcript.trim(),
+          transcriptError: undefined,
+        });
+      }
+    },
+    [threadId, updateMessage]
+  );
+
+  return { transcribingId, retry, edit };
+}
@@ -0,0 +1,115 @@
+import { File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+
+/** 音声ファイルの中身をバイト列として読み込む（Web では blob: URL を fetch する） */
+export const readAudioBytes = async (uri: string): Promise<Uint8Array> => {
+  if (Platform.OS === "web") {
+    const response = await fetch(uri);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  return new File(uri).bytes();
+};
+
+export const readAscii = (
+  bytes: Uint8Array,
+  offset: number,
+  length: number
+): string => {
+  let result = "";
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+};
+
+export const dataViewOf = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * 生成した音声データを一時ファイルとして書き出し、その URI を返す。
+ * チャットに追加するとスレッドのディレクトリへ移動される。
+ */
+export const writeTempAudioFile = (
+  bytes: Uint8Array,
+  extension: string,
+  mimeType: string
+): string => {
+  if (Platform.OS === "web") {
+    return URL.createObjectURL(
+      new Blob([new Uint8Array(bytes)], { type: mimeType })
+    );
+  }
+  const file = new File(
+    Paths.cache,
+    `audio-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}.${extension}`
+  );
+  file.create();
+  file.write(bytes);
+  return file.uri;
+};
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP: Record<string, number> = Object.fromEntries(
+  Array.from(BASE64_CHARS, (char, index) => [char, index])
+);
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // 長い音声でも文字列連結が重くならないよう、行単位でまとめて join する
+  const lines: string[] = [];
+  for (let start = 0; start < bytes.length; start += 3 * 1024) {
+    const end = Math.min(start + 3 * 1024, bytes.length);
+    let line = "";
+    for (let i = start; i < end; i += 3) {
+      const a = bytes[i];
+      const b = i + 1 < end ? bytes[i + 1] : 0;
+      const c = i + 2 < end ? bytes[i + 2] : 0;
+      const triple = (a << 16) | (b << 8) | c;
+      line += BASE64_CHARS[(triple >> 18) & 0x3f];
+      line += BASE64_CHARS[(triple >> 12) & 0x3f];
+      line += i + 1 < end ? BASE64_CHARS[(triple >> 6) & 0x3f] : "=";
+      line += i + 2 < end ? BASE64_CHARS[triple & 0x3f] : "=";
+    }
+    lines.push(line);
+  }
+  return lines.join("");
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean[i]];
+    const b = BASE64_LOOKUP[clean[i + 1]] ?? 0;
+    const c = i + 2 < clean.length ? BASE64_LOOKUP[clean[i + 2]] : 0;
+    const d = i + 3 < clean.length ? BASE64_LOOKUP[clean[i + 3]] : 0;
+    const triple = (a << 18) | (b << 12) | (c << 6) | d;
+    bytes[byteIndex++] = (triple >> 16) & 0xff;
+    if (i + 2 < clean.length) {
+      bytes[byteIndex++] = (triple >> 8) & 0xff;
+    }
+    if (i + 3 < clean.length) {
+      bytes[byteIndex++] = triple & 0xff;
+    }
+  }
+  return bytes.subarray(0, byteIndex);
+};
+
+/** 不要になった録音ファイルを削除する（送信せずに破棄したときなど） */
+export const deleteAudioFile = (uri: string) => {
+  try {
+    if (Platform.OS === "web") {
+      if (uri.startsWith("blob:")) {
+        URL.revokeObjectURL(uri);
+      }
+      return;
+    }
+    const file = new File(uri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.error("Failed to delete audio file:", error);
+  }
+};
@@ -0,0 +1,47 @@
+import { Platform } from "react-native";
+
+import { decodeWavToMono } from "./wav";
+
+export type DecodedAudio = { samples: Float32Array; sampleRate: number };
+
+/** Web Audio API でブラウザが再生できる形式 (WebM / AAC など) をデコードする */
+const decodeWithWebAudio = async (
+  bytes: Uint8Array
+): Promise<DecodedAudio | null> => {
+  if (typeof AudioContext === "undefined") {
+    return null;
+  }
+  const context = new AudioContext();
+  try {
+    // decodeAudioData は渡したバッファを使い切るのでコピーを渡す
+    const buffer = await context.decodeAudioData(new Uint8Array(bytes).buffer);
+    const samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < buffer.length; i++) {
+        samples[i] += channel[i] / buffer.numberOfChannels;
+      }
+    }
+    return { samples, sampleRate: buffer.sampleRate };
+  } catch (error) {
+    console.error("Audio decode error:", error);
+    return null;
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * 音声ファイルをモノラルの -1〜1 のサンプル列に変換する。
+ * 16bit PCM の WAV はどの環境でも、それ以外は Web でのみデコードできる。
+ * デコードできない場合は null を返す。
+ */
+export const decodeAudioToMono = async (
+  bytes: Uint8Array
+): Promise<DecodedAudio | null> => {
+  const wav = decodeWavToMono(bytes);
+  if (wav) {
+    return wav;
+  }
+  return Platform.OS === "web" ? decodeWithWebAudio(bytes) : null;
+};
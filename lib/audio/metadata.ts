@@ -0,0 +1,407 @@
+import { createAudioPlayer } from "expo-audio";
+
+import { dataViewOf, readAscii, readAudioBytes } from "./bytes";
+import { parseWav, wavCodecName } from "./wav";
+
+export type AudioContainer = "wav" | "mp4" | "webm" | "unknown";
+
+export type AudioMetadata = {
+  container: AudioContainer;
+  durationSec: number;
+  sampleRate?: number;
+  channels?: number;
+  codec?: string;
+  sizeBytes: number;
+};
+
+type ContainerInfo = Omit<AudioMetadata, "sizeBytes" | "durationSec"> & {
+  durationSec?: number;
+};
+
+const PLAYER_PROBE_TIMEOUT_MS = 3000;
+
+// ---------------------------------------------------------------------------
+// WAV
+
+const readWavInfo = (bytes: Uint8Array): ContainerInfo | null => {
+  const wav = parseWav(bytes);
+  if (!wav) {
+    return null;
+  }
+
+  const { format, dataLength } = wav;
+  return {
+    container: "wav",
+    durationSec: format.byteRate > 0 ? dataLength / format.byteRate : undefined,
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    codec: wavCodecName(format),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// MP4 / M4A / 3GP (ISO BMFF)
+
+const MP4_CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl"]);
+
+const MP4_CODEC_NAMES: Record<string, string> = {
+  mp4a: "aac",
+  alac: "alac",
+  Opus: "opus",
+  samr: "amr_nb",
+  sawb: "amr_wb",
+  ".mp3": "mp3",
+};
+
+const readMp4Info = (bytes: Uint8Array): ContainerInfo | null => {
+  if (readAscii(bytes, 4, 4) !== "ftyp") {
+    return null;
+  }
+
+  const view = dataViewOf(bytes);
+  const info: ContainerInfo = { container: "mp4" };
+  let movieDuration: number | undefined;
+  let trackDuration: number | undefined;
+
+  // mvhd / mdhd は version によってフィールド幅が異なる
+  const readHeaderDuration = (body: number): number | undefined => {
+    const version = bytes[body];
+    const timescale =
+      version === 1 ? view.getUint32(body + 20) : view.getUint32(body + 12);
+    const duration =
+      version === 1
+        ? Number(view.getBigUint64(body + 24))
+        : view.getUint32(body + 16);
+    return timescale > 0 ? duration / timescale : undefined;
+  };
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = readAscii(bytes, offset + 4, 4);
+      let header = 8;
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) {
+        return;
+      }
+      const body = offset + header;
+      const boxEnd = Math.min(offset + size, end);
+
+      if (MP4_CONTAINER_BOXES.has(type)) {
+        walk(body, boxEnd);
+      } else if (type === "mvhd") {
+        movieDuration = readHeaderDuration(body);
+      } else if (type === "mdhd" && trackDuration === undefined) {
+        trackDuration = readHeaderDuration(body);
+      } else if (type === "stsd" && !info.codec && body + 44 <= boxEnd) {
+        // full box (4) + entry_count (4) の後に最初のサンプルエントリが続く
+        const entry = body + 8;
+        const format = readAscii(bytes, entry + 4, 4);
+        info.codec = MP4_CODEC_NAMES[format] ?? format.trim();
+        info.channels = view.getUint16(entry + 24);
+        // samplerate は 16.16 固定小数点
+        info.sampleRate = view.getUint32(entry + 32) >>> 16;
+      }
+
+      offset = offset + size;
+    }
+  };
+
+  walk(0, bytes.length);
+  info.durationSec = trackDuration || movieDuration;
+  return info;
+};
+
+// ---------------------------------------------------------------------------
+// WebM (Matroska / EBML)
+
+const EBML_ID = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackType: 0x83,
+  codecId: 0x86,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  clusterTimecode: 0xe7,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  simpleBlock: 0xa3,
+};
+
+// 子要素を持つ要素。サイズ不定（ライブ録音）でも中に入って走査を続ける
+const EBML_MASTER_IDS = new Set([
+  EBML_ID.segment,
+  EBML_ID.info,
+  EBML_ID.tracks,
+  EBML_ID.trackEntry,
+  EBML_ID.audio,
+  EBML_ID.cluster,
+  EBML_ID.blockGroup,
+]);
+
+const WEBM_CODEC_NAMES: Record<string, string> = {
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_AAC: "aac",
+  "A_PCM/INT/LIT": "pcm",
+  "A_PCM/FLOAT/IEEE": "pcm_float",
+};
+
+type Vint = { value: number; length: number; unknown: boolean };
+
+const readVint = (
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): Vint | null => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) {
+    return null;
+  }
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  if (offset + length > bytes.length) {
+    return null;
+  }
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readEbmlUint = (bytes: Uint8Array, offset: number, size: number) => {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+};
+
+const readEbmlFloat = (bytes: Uint8Array, offset: number, size: number) => {
+  const view = dataViewOf(bytes);
+  if (size === 4) {
+    return view.getFloat32(offset);
+  }
+  if (size === 8) {
+    return view.getFloat64(offset);
+  }
+  return 0;
+};
+
+const readWebmInfo = (bytes: Uint8Array): ContainerInfo | null => {
+  if (readEbmlUint(bytes, 0, 4) !== 0x1a45dfa3) {
+    return null;
+  }
+
+  const info: ContainerInfo = { container: "webm" };
+  let timecodeScale = 1_000_000;
+  let declaredDuration: number | undefined;
+  let clusterTimecode = 0;
+  let lastBlockTimecode = 0;
+  let trackType: number | undefined;
+  let track: Partial<ContainerInfo> = {};
+
+  const commitTrack = () => {
+    if (!info.codec && (trackType === 2 || trackType === undefined) && track.codec) {
+      Object.assign(info, track);
+    }
+  };
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    if (!id) {
+      break;
+    }
+    const size = readVint(bytes, offset + id.length, false);
+    if (!size) {
+      break;
+    }
+    const body = offset + id.length + size.length;
+
+    if (EBML_MASTER_IDS.has(id.value)) {
+      if (id.value === EBML_ID.trackEntry) {
+        commitTrack();
+        track = {};
+        trackType = undefined;
+      }
+      offset = body;
+      continue;
+    }
+
+    const dataSize = size.unknown ? bytes.length - body : size.value;
+    switch (id.value) {
+      case EBML_ID.timecodeScale:
+        timecodeScale = readEbmlUint(bytes, body, dataSize);
+        break;
+      case EBML_ID.duration:
+        declaredDuration = readEbmlFloat(bytes, body, dataSize);
+        break;
+      case EBML_ID.trackType:
+        trackType = readEbmlUint(bytes, body, dataSize);
+        break;
+      case EBML_ID.codecId: {
+        const codecId = readAscii(bytes, body, dataSize).replace(/\0+$/, "");
+        track.codec = WEBM_CODEC_NAMES[codecId] ?? codecId;
+        break;
+      }
+      case EBML_ID.samplingFrequency:
+        track.sampleRate = Math.round(readEbmlFloat(bytes, body, dataSize));
+        break;
+      case EBML_ID.channels:
+        track.channels = readEbmlUint(bytes, body, dataSize);
+        break;
+      case EBML_ID.clusterTimecode:
+        clusterTimecode = readEbmlUint(bytes, body, dataSize);
+        break;
+      case EBML_ID.simpleBlock:
+      case EBML_ID.block: {
+        // トラック番号 (vint) の直後に符号付き 16bit の相対タイムコード
+        const trackNumber = readVint(bytes, body, false);
+        if (trackNumber && body + trackNumber.length + 2 <= bytes.length) {
+          const relative = dataViewOf(bytes).getInt16(body + trackNumber.length);
+          lastBlockTimecode = Math.max(
+            lastBlockTimecode,
+            clusterTimecode + relative
+          );
+        }
+        break;
+      }
+    }
+
+    offset = body + dataSize;
+  }
+  commitTrack();
+
+  // MediaRecorder の出力は Duration を持たないため、最後のブロック位置で代用する
+  const durationTicks = declaredDuration || lastBlockTimecode;
+  info.durationSec =
+    durationTicks > 0 ? (durationTicks * timecodeScale) / 1e9 : undefined;
+  return info;
+};
+
+// ---------------------------------------------------------------------------
+
+/** ヘッダーを解析できない場合は実際にプレイヤーへ読み込んで長さを取得する */
+const probePlayerDuration = (uri: string): Promise<number | null> =>
+  new Promise((resolve) => {
+    const player = createAudioPlayer(uri);
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      subscription.remove();
+      player.remove();
+      resolve(duration);
+    };
+
+    const subscription = player.addListener("playbackStatusUpdate", (status) => {
+      if (status.isLoaded && status.duration > 0) {
+        finish(status.duration);
+      }
+    });
+    const timer = setTimeout(
+      () => finish(player.duration > 0 ? player.duration : null),
+      PLAYER_PROBE_TIMEOUT_MS
+    );
+
+    if (player.isLoaded && player.duration > 0) {
+      finish(player.duration);
+    }
+  });
+
+export const parseAudioContainer = (bytes: Uint8Array): ContainerInfo => {
+  try {
+    return (
+      readWavInfo(bytes) ??
+      readMp4Info(bytes) ??
+      readWebmInfo(bytes) ?? { container: "unknown" }
+    );
+  } catch (error) {
+    console.error("Failed to parse audio container:", error);
+    return { container: "unknown" };
+  }
+};
+
+/**
+ * 録音ファイルから長さ・サンプルレート・チャンネル数・コーデック・サイズを読み取る。
+ * 失敗しても例外は投げず、分からない項目は undefined（長さは 0）になる。
+ */
+export const readAudioMetadata = async (uri: string): Promise<AudioMetadata> => {
+  let bytes: Uint8Array | null = null;
+  try {
+    bytes = await readAudioBytes(uri);
+  } catch (error) {
+    console.error("Failed to read audio file:", error);
+  }
+
+  const info = bytes ? parseAudioContainer(bytes) : { container: "unknown" as const };
+  const durationSec =
+    info.durationSec && info.durationSec > 0
+      ? info.durationSec
+      : (await probePlayerDuration(uri)) ?? 0;
+
+  return {
+    ...info,
+    durationSec,
+    sizeBytes: bytes?.length ?? 0,
+  };
+};
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  "3gp": "audio/3gpp",
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  mp3: "audio/mp3",
+  flac: "audio/flac",
+};
+
+const MIME_TYPES_BY_CONTAINER: Record<AudioContainer, string | null> = {
+  wav: "audio/wav",
+  mp4: "audio/mp4",
+  webm: "audio/webm",
+  unknown: null,
+};
+
+/**
+ * 音声データのコンテナから MIME タイプを推定する。
+ * Web の blob: URL のように拡張子がない場合もあるので、コンテナが分からないときだけ拡張子を使う
+ */
+export const audioMimeTypeOf = (bytes: Uint8Array, uri: string): string => {
+  const { container } = parseAudioContainer(bytes);
+  // Android の LOW_QUALITY (AMR-NB) は 3GP の ftyp ブランドで書き出される
+  if (container === "mp4" && readAscii(bytes, 8, 3) === "3gp") {
+    return "audio/3gpp";
+  }
+  const extension = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(uri)?.[1]?.toLowerCase();
+  return (
+    MIME_TYPES_BY_CONTAINER[container] ??
+    ((extension && MIME_TYPES_BY_EXTENSION[extension]) || "audio/mp4")
+  );
+};
@@ -0,0 +1,202 @@
+import {
+  AudioQuality,
+  IOSOutputFormat,
+  RecordingPresets,
+  type RecordingOptions,
+} from "expo-audio";
+import { Platform } from "react-native";
+
+/** aac: AAC (.m4a)、pcm: 非圧縮のリニア PCM (.wav) */
+export type RecordingFormat = "aac" | "pcm";
+
+export type RecordingProfileId = "high" | "low" | "speech" | "wav" | "custom";
+
+/** 設定画面で編集できるカスタムプロファイルの項目 */
+export type CustomRecordingProfile = {
+  sampleRate: number;
+  channels: number;
+  /** AAC のビットレート (bps)。PCM では使わない */
+  bitRate: number;
+  format: RecordingFormat;
+};
+
+export type RecordingProfile = CustomRecordingProfile & {
+  id: RecordingProfileId;
+  title: string;
+  description: string;
+};
+
+export const DEFAULT_RECORDING_PROFILE_ID: RecordingProfileId = "high";
+
+export const DEFAULT_CUSTOM_RECORDING_PROFILE: CustomRecordingProfile = {
+  sampleRate: 22050,
+  channels: 1,
+  bitRate: 48000,
+  format: "aac",
+};
+
+export const SAMPLE_RATE_OPTIONS = [8000, 16000, 22050, 44100, 48000];
+export const BIT_RATE_OPTIONS = [24000, 32000, 48000, 64000, 96000, 128000];
+
+// PCM は 16bit 固定
+const PCM_BITS_PER_SAMPLE = 16;
+// Android の LOW_QUALITY は AMR-NB (12.2kbps) で録音され、bitRate は使われない
+const AMR_NB_BIT_RATE = 12200;
+
+const BUILT_IN_PROFILES: RecordingProfile[] = [
+  {
+    id: "high",
+    title: "高音質",
+    description: "RecordingPresets.HIGH_QUALITY（AAC ステレオ 128kbps）",
+    sampleRate: 44100,
+    channels: 2,
+    bitRate: 128000,
+    format: "aac",
+  },
+  {
+    id: "low",
+    title: "低音質",
+    description: "RecordingPresets.LOW_QUALITY（Android では AMR-NB）",
+    sampleRate: 44100,
+    channels: 2,
+    bitRate: 64000,
+    format: "aac",
+  },
+  {
+    id: "speech",
+    title: "音声向け",
+    description: "話し声に絞ったモノラル AAC 16kHz / 32kbps",
+    sampleRate: 16000,
+    channels: 1,
+    bitRate: 32000,
+    format: "aac",
+  },
+  {
+    id: "wav",
+    title: "WAV (PCM)",
+    description: "後から加工するための非圧縮 16bit モノラル 16kHz（iOS のみ）",
+    sampleRate: 16000,
+    channels: 1,
+    bitRate: 16000 * PCM_BITS_PER_SAMPLE,
+    format: "pcm",
+  },
+];
+
+/** 設定画面に並べる順のプロファイル一覧（カスタムは保存された値で作る） */
+export const listRecordingProfiles = (
+  custom: CustomRecordingProfile
+): RecordingProfile[] => [
+  ...BUILT_IN_PROFILES,
+  {
+    ...custom,
+    id: "custom",
+    title: "カスタム",
+    description: "サンプルレート・チャンネル数・ビットレート・形式を指定",
+  },
+];
+
+export const findRecordingProfile = (
+  id: RecordingProfileId,
+  custom: CustomRecordingProfile
+): RecordingProfile => {
+  const profiles = listRecordingProfiles(custom);
+  return profiles.find((p) => p.id === id) ?? profiles[0];
+};
+
+/** expo-audio は Android と Web で WAV を書き出せないため、PCM は iOS のみ */
+export const isRecordingProfileSupported = (profile: CustomRecordingProfile) =>
+  profile.format !== "pcm" || Platform.OS === "ios";
+
+/** 実際に録音に使うプロファイル。この環境で録音できない形式なら高音質にする */
+export const resolveRecordingProfile = (
+  id: RecordingProfileId,
+  custom: CustomRecordingProfile
+): RecordingProfile => {
+  const profile = findRecordingProfile(id, custom);
+  return isRecordingProfileSupported(profile)
+    ? profile
+    : findRecordingProfile("high", custom);
+};
+
+/**
+ * 録音の一部を切り出せるかどうか。WAV はどこでも、それ以外は
+ * ブラウザでデコードできる Web のみ（ネイティブの AAC は切り出せない）
+ */
+export const canTrimRecordingProfile = (profile: CustomRecordingProfile) =>
+  profile.format === "pcm" || Platform.OS === "web";
+
+/** プロファイルを録音オプションに変換する（メータリングは常に有効） */
+export const toRecordingOptions = (
+  profile: RecordingProfile
+): RecordingOptions => {
+  if (profile.id === "high") {
+    return { ...RecordingPresets.HIGH_QUALITY, isMeteringEnabled: true };
+  }
+  if (profile.id === "low") {
+    return { ...RecordingPresets.LOW_QUALITY, isMeteringEnabled: true };
+  }
+
+  if (profile.format === "pcm") {
+    return {
+      extension: ".wav",
+      sampleRate: profile.sampleRate,
+      numberOfChannels: profile.channels,
+      bitRate: profile.sampleRate * profile.channels * PCM_BITS_PER_SAMPLE,
+      isMeteringEnabled: true,
+      android: {
+        outputFormat: "default",
+        audioEncoder: "default",
+      },
+      ios: {
+        outputFormat: IOSOutputFormat.LINEARPCM,
+        audioQuality: AudioQuality.MAX,
+        linearPCMBitDepth: PCM_BITS_PER_SAMPLE,
+        linearPCMIsBigEndian: false,
+        linearPCMIsFloat: false,
+      },
+      web: {},
+    };
+  }
+
+  return {
+    extension: ".m4a",
+    sampleRate: profile.sampleRate,
+    numberOfChannels: profile.channels,
+    bitRate: profile.bitRate,
+    isMeteringEnabled: true,
+    android: {
+      outputFormat: "mpeg4",
+      audioEncoder: "aac",
+    },
+    ios: {
+      outputFormat: IOSOutputFormat.MPEG4AAC,
+      audioQuality: AudioQuality.HIGH,
+    },
+    web: {
+      mimeType: "audio/webm",
+      bitsPerSecond: profile.bitRate,
+    },
+  };
+};
+
+/** 1 分あたりの録音ファイルサイズの目安（バイト） */
+export const estimateBytesPerMinute = (profile: RecordingProfile): number => {
+  if (profile.format === "pcm") {
+    return (
+      (profile.sampleRate * profile.channels * PCM_BITS_PER_SAMPLE * 60) / 8
+    );
+  }
+  const bitRate =
+    profile.id === "low" && Platform.OS === "android"
+      ? AMR_NB_BIT_RATE
+      : profile.bitRate;
+  return (bitRate * 60) / 8;
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+    : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+export const recordingProfileTitle = (id: RecordingProfileId): string =>
+  findRecordingProfile(id, DEFAULT_CUSTOM_RECORDING_PROFILE).title;
@@ -0,0 +1,56 @@
+import { RecordingPresets, type AudioRecorder } from "expo-audio";
+
+import { deleteAudioFile } from "./bytes";
+
+/** しきい値として選べる範囲 (dBFS) */
+export const MIN_SILENCE_THRESHOLD_DB = -70;
+export const MAX_SILENCE_THRESHOLD_DB = -20;
+
+// 周囲の音よりこれだけ大きければ話し声とみなす
+const CALIBRATION_MARGIN_DB = 10;
+const CALIBRATION_INTERVAL_MS = 100;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const clampThresholdDb = (db: number) =>
+  Math.min(MAX_SILENCE_THRESHOLD_DB, Math.max(MIN_SILENCE_THRESHOLD_DB, db));
+
+/**
+ * 指定したレコーダーで durationMs の間だけ録音し、周囲の音の平均レベル (dBFS) を返す。
+ * 測定用の録音ファイルは削除する。
+ */
+export const measureAmbientNoise = async (
+  recorder: AudioRecorder,
+  durationMs: number = 2000
+): Promise<number> => {
+  await recorder.prepareToRecordAsync({
+    ...RecordingPresets.LOW_QUALITY,
+    isMeteringEnabled: true,
+  });
+  recorder.record();
+
+  const samples: number[] = [];
+  try {
+    for (let elapsed = 0; elapsed < durationMs; elapsed += CALIBRATION_INTERVAL_MS) {
+      await wait(CALIBRATION_INTERVAL_MS);
+      const { metering } = recorder.getStatus();
+      if (metering !== undefined && Number.isFinite(metering)) {
+        samples.push(metering);
+      }
+    }
+  } finally {
+    await recorder.stop();
+    if (recorder.uri) {
+      deleteAudioFile(recorder.uri);
+    }
+  }
+
+  if (samples.length === 0) {
+    throw new Error("マイクの音量を取得できませんでした");
+  }
+  return samples.reduce((sum, db) => sum + db, 0) / samples.length;
+};
+
+/** 周囲の音のレベルから無音判定のしきい値を決める */
+export const thresholdFromAmbient = (ambientDb: number) =>
+  clampThresholdDb(Math.round(ambientDb + CALIBRATION_MARGIN_DB));
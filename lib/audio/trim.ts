@@ -0,0 +1,44 @@
+import { readAudioBytes, writeTempAudioFile } from "./bytes";
+import { decodeAudioToMono } from "./decode";
+import { encodeMonoWav, trimWav } from "./wav";
+
+/** デコードした音声の startSec〜endSec をモノラルの WAV にする */
+const trimDecoded = async (
+  bytes: Uint8Array,
+  startSec: number,
+  endSec?: number
+): Promise<Uint8Array | null> => {
+  const audio = await decodeAudioToMono(bytes);
+  if (!audio) {
+    return null;
+  }
+  const { samples, sampleRate } = audio;
+  const start = Math.max(0, Math.round(startSec * sampleRate));
+  const end = Math.min(
+    samples.length,
+    endSec === undefined ? samples.length : Math.round(endSec * sampleRate)
+  );
+  return end > start
+    ? encodeMonoWav(samples.subarray(start, end), sampleRate)
+    : null;
+};
+
+/**
+ * 録音ファイルの startSec〜endSec を切り出した新しい WAV を書き出し、その URI を返す。
+ * WAV (PCM) はそのまま切り出し、Web では WebM などもデコードして WAV にする。
+ * 切り出せない形式（ネイティブの AAC など）では null を返す。
+ */
+export const trimAudioFile = async (
+  uri: string,
+  startSec: number,
+  endSec?: number
+): Promise<string | null> => {
+  const bytes = await readAudioBytes(uri);
+  const trimmed =
+    trimWav(bytes, startSec, endSec) ??
+    (await trimDecoded(bytes, startSec, endSec));
+  if (!trimmed) {
+    return null;
+  }
+  return writeTempAudioFile(trimmed, "wav", "audio/wav");
+};
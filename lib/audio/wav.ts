@@ -0,0 +1,213 @@
+import { dataViewOf, readAscii } from "./bytes";
+
+export type WavFormat = {
+  /** 1 = PCM, 3 = IEEE float, 0xFFFE = WAVE_FORMAT_EXTENSIBLE */
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+};
+
+export type ParsedWav = {
+  format: WavFormat;
+  dataOffset: number;
+  dataLength: number;
+};
+
+export const isWav = (bytes: Uint8Array) =>
+  readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WAVE";
+
+/**
+ * RIFF/WAVE のチャンクを走査して fmt と data の位置を返す。
+ * 録音中断などでサイズが 0 や 0xFFFFFFFF のままのファイルは末尾までを data とみなす。
+ */
+export const parseWav = (bytes: Uint8Array): ParsedWav | null => {
+  if (!isWav(bytes)) {
+    return null;
+  }
+
+  const view = dataViewOf(bytes);
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readAscii(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === "fmt " && body + 16 <= bytes.length) {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        byteRate: view.getUint32(body + 8, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === "data" && format) {
+      const remaining = bytes.length - body;
+      const dataLength =
+        chunkSize === 0 || chunkSize > remaining ? remaining : chunkSize;
+      return { format, dataOffset: body, dataLength };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+};
+
+export const wavCodecName = (format: WavFormat): string => {
+  switch (format.audioFormat) {
+    case 3:
+      return "pcm_float";
+    case 6:
+      return "alaw";
+    case 7:
+      return "ulaw";
+    default:
+      return "pcm";
+  }
+};
+
+export type PcmFormat = {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+};
+
+/** リトルエンディアンの PCM データに 44 バイトの WAV ヘッダーを付ける */
+export const encodeWav = (pcm: Uint8Array, format: PcmFormat): Uint8Array => {
+  const blockAlign = (format.channels * format.bitsPerSample) / 8;
+  const bytes = new Uint8Array(44 + pcm.length);
+  const view = dataViewOf(bytes);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      bytes[offset + i] = text.charCodeAt(i);
+    }
+  };
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + pcm.length, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, format.bitsPerSample, true);
+  writeAscii(36, "data");
+  view.setUint32(40, pcm.length, true);
+  bytes.set(pcm, 44);
+  return bytes;
+};
+
+// WAVE_FORMAT_EXTENSIBLE でも中身が整数 PCM なら同じように扱える
+const TRIMMABLE_FORMATS = [1, 0xfffe];
+
+/**
+ * WAV の startSec〜endSec を切り出して新しい WAV を作る（省略時は末尾まで）。
+ * 整数 PCM 以外や範囲が空になる場合は null を返す。
+ */
+export const trimWav = (
+  bytes: Uint8Array,
+  startSec: number,
+  endSec?: number
+): Uint8Array | null => {
+  const wav = parseWav(bytes);
+  if (!wav || !TRIMMABLE_FORMATS.includes(wav.format.audioFormat)) {
+    return null;
+  }
+
+  const { format, dataOffset, dataLength } = wav;
+  const blockAlign =
+    format.blockAlign || (format.channels * format.bitsPerSample) / 8;
+  // サンプルの途中で切らないようブロック単位に揃える
+  const toOffset = (seconds: number) =>
+    Math.min(
+      dataLength - (dataLength % blockAlign),
+      Math.max(0, Math.round(seconds * format.sampleRate) * blockAlign)
+    );
+
+  const start = toOffset(startSec);
+  const end = endSec === undefined ? toOffset(Infinity) : toOffset(endSec);
+  if (end <= start) {
+    return null;
+  }
+  return encodeWav(bytes.subarray(dataOffset + start, dataOffset + end), {
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    bitsPerSample: format.bitsPerSample,
+  });
+};
+
+/**
+ * 16bit 整数 PCM の WAV をモノラルの -1〜1 のサンプル列に変換する。
+ * それ以外の形式は null を返す。
+ */
+export const decodeWavToMono = (
+  bytes: Uint8Array
+): { samples: Float32Array; sampleRate: number } | null => {
+  const wav = parseWav(bytes);
+  if (
+    !wav ||
+    !TRIMMABLE_FORMATS.includes(wav.format.audioFormat) ||
+    wav.format.bitsPerSample !== 16
+  ) {
+    return null;
+  }
+
+  const { format, dataOffset, dataLength } = wav;
+  const view = dataViewOf(bytes);
+  const channels = Math.max(1, format.channels);
+  const frames = Math.floor(dataLength / (2 * channels));
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += view.getInt16(dataOffset + (i * channels + c) * 2, true);
+    }
+    samples[i] = sum / channels / 32768;
+  }
+  return { samples, sampleRate: format.sampleRate };
+};
+
+/** 線形補間でサンプルレートを変換する */
+export const resampleLinear = (
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number
+): Float32Array => {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+  const length = Math.max(1, Math.round((samples.length * toRate) / fromRate));
+  const result = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const t = position - index;
+    result[i] = samples[index] * (1 - t) + samples[next] * t;
+  }
+  return result;
+};
+
+/** -1〜1 のモノラルのサンプル列を 16bit PCM の WAV にする */
+export const encodeMonoWav = (
+  samples: Float32Array,
+  sampleRate: number
+): Uint8Array => {
+  const pcm = new Uint8Array(samples.length * 2);
+  const view = dataViewOf(pcm);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, Math.round(value * 32767), true);
+  }
+  return encodeWav(pcm, { sampleRate, channels: 1, bitsPerSample: 16 });
+};
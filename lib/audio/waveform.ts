@@ -0,0 +1,45 @@
+/** 保存する波形のサンプル数（バブルに描画する棒の本数） */
+export const WAVEFORM_SAMPLE_COUNT = 48;
+
+/** この値以下の dB は無音として扱う */
+const METERING_FLOOR_DB = -60;
+
+/** レコーダーのメータリング値 (dBFS, -160〜0) を 0〜1 の音量に変換する */
+export const meteringToLevel = (db: number | undefined): number => {
+  if (db === undefined || !Number.isFinite(db) || db <= METERING_FLOOR_DB) {
+    return 0;
+  }
+  if (db >= 0) {
+    return 1;
+  }
+  return (db - METERING_FLOOR_DB) / -METERING_FLOOR_DB;
+};
+
+/**
+ * 録音中に集めた音量列を count 個に間引く。
+ * 各区間のピークを取り、短い発話でも形が潰れないようにする。
+ */
+export const downsampleEnvelope = (
+  levels: number[],
+  count: number = WAVEFORM_SAMPLE_COUNT
+): number[] => {
+  if (levels.length === 0) {
+    return [];
+  }
+  if (levels.length <= count) {
+    return levels.map((level) => Math.round(level * 100) / 100);
+  }
+
+  const result: number[] = [];
+  const bucketSize = levels.length / count;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucketSize));
+    let peak = 0;
+    for (let j = start; j < end && j < levels.length; j++) {
+      peak = Math.max(peak, levels[j]);
+    }
+    result.push(Math.round(peak * 100) / 100);
+  }
+  return result;
+};
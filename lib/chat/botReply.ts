@@ -0,0 +1,37 @@
+import { readAudioMetadata, type AudioMetadata } from "@/lib/audio/metadata";
+import { audioPartOf } from "@/lib/gemini/audio";
+import { generateText } from "@/lib/gemini/client";
+import { synthesizeSpeech } from "@/lib/gemini/speech";
+
+const REPLY_INSTRUCTION =
+  "あなたはボイスチャットの話し相手です。ユーザーの音声を聞き、読み上げに向いた短く自然な話し言葉で返答してください。" +
+  "ユーザーが日本語以外で話した場合はその言語で返答してください。箇条書きや記号は使わないでください。";
+
+export type BotReply = {
+  uri: string;
+  text: string;
+  metadata: AudioMetadata;
+};
+
+/**
+ * ユーザーの録音を Gemini に送って返答テキストを受け取り、
+ * それを音声合成した WAV ファイルと合わせて返す。
+ */
+export const createBotReply = async (
+  apiKey: string,
+  audioUri: string
+): Promise<BotReply> => {
+  const text = (
+    await generateText(apiKey, {
+      systemInstruction: { parts: [{ text: REPLY_INSTRUCTION }] },
+      contents: [{ parts: [await audioPartOf(audioUri)] }],
+    })
+  ).trim();
+  if (!text) {
+    throw new Error("Geminiから返答を取得できませんでした");
+  }
+
+  const uri = await synthesizeSpeech(apiKey, text);
+  const metadata = await readAudioMetadata(uri);
+  return { uri, text, metadata };
+};
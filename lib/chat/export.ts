@@ -0,0 +1,290 @@
+import { Directory, File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+
+import { readAudioBytes } from "@/lib/audio/bytes";
+import { decodeAudioToMono } from "@/lib/audio/decode";
+import { encodeMonoWav, resampleLinear } from "@/lib/audio/wav";
+import { downloadUrlOnWeb } from "@/lib/storage/download";
+import { createZip, type ZipEntry } from "@/lib/storage/zip";
+
+import type { VoiceMessage } from "./types";
+
+const JOINED_AUDIO_NAME = "conversation.wav";
+// Bot の返答 (Gemini TTS) と同じレートにそろえる
+const JOINED_SAMPLE_RATE = 24000;
+// メッセージの間に入れる無音
+const GAP_SEC = 0.6;
+
+const SPEAKER_LABELS: Record<VoiceMessage["from"], string> = {
+  user: "You",
+  bot: "Bot",
+};
+
+type ManifestEntry = {
+  index: number;
+  id: string;
+  speaker: string;
+  createdAt: string;
+  durationSec: number;
+  /** 元の音声ファイル（バンドル内のパス）。読み込めなかったら null */
+  file: string | null;
+  /** 結合した音声の中での開始位置。結合できない形式なら null */
+  joinedStartSec: number | null;
+  /** Bot の返答テキスト */
+  text?: string;
+  /** ユーザーの録音の文字起こし */
+  transcript?: string;
+};
+
+const extensionOf = (uri: string) => {
+  const match = /\.([a-z0-9]+)$/i.exec(uri.split("?")[0]);
+  return match ? match[1].toLowerCase() : "audio";
+};
+
+// ファイル名に使えない文字を置き換える
+const safeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\s]+/g, "_").slice(0, 40) || "voicechat";
+
+const formatTimestamp = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+/** 書き出し結果で知らせるメッセージ（1 から数えた番号と話者） */
+export type ExportedMessageRef = { index: number; speaker: string };
+
+export type ExportResult = {
+  /** 書き出した ZIP（Web では blob: URL） */
+  uri: string;
+  fileName: string;
+  /** 音声ファイルを読み込めず、ZIP に入れられなかったメッセージ */
+  missing: ExportedMessageRef[];
+  /** デコードできない形式のメッセージ。1 つでもあれば結合した音声は作らない */
+  undecodable: ExportedMessageRef[];
+};
+
+/**
+ * メッセージの音声を順番につなげて 1 つの WAV にする。読み込めなかった (null) ものは飛ばす。
+ * ネイティブの AAC 録音などデコードできないものが 1 つでもあると片方の発言が抜けた
+ * 音声になるので、結合せずにその位置を undecodable で返す。
+ */
+const joinAudio = async (clips: (Uint8Array | null)[]) => {
+  const decoded: (Float32Array | null)[] = [];
+  const undecodable: number[] = [];
+  // 長い会話でメモリを使いすぎないよう 1 つずつデコードする
+  for (const [index, bytes] of clips.entries()) {
+    const audio = bytes ? await decodeAudioToMono(bytes) : null;
+    if (bytes && !audio) {
+      undecodable.push(index);
+    }
+    // 結合しないと決まったら、残りはデコードできるかだけ確かめる
+    decoded.push(
+      audio && undecodable.length === 0
+        ? resampleLinear(audio.samples, audio.sampleRate, JOINED_SAMPLE_RATE)
+        : null
+    );
+  }
+
+  const gap = Math.round(GAP_SEC * JOINED_SAMPLE_RATE);
+  const joinable = decoded.filter((s): s is Float32Array => s !== null);
+  if (undecodable.length > 0 || joinable.length === 0) {
+    return { joined: null, undecodable };
+  }
+
+  const total =
+    joinable.reduce((sum, s) => sum + s.length, 0) +
+    gap * (joinable.length - 1);
+  const samples = new Float32Array(total);
+  const startTimes: (number | null)[] = [];
+  let offset = 0;
+  for (const clip of decoded) {
+    if (!clip) {
+      startTimes.push(null);
+      continue;
+    }
+    if (offset > 0) {
+      offset += gap;
+    }
+    startTimes.push(offset / JOINED_SAMPLE_RATE);
+    samples.set(clip, offset);
+    offset += clip.length;
+  }
+  return {
+    joined: { wav: encodeMonoWav(samples, JOINED_SAMPLE_RATE), startTimes },
+    undecodable,
+  };
+};
+
+const buildMarkdown = (
+  title: string,
+  exportedAt: Date,
+  entries: ManifestEntry[],
+  joinedAudio: string
+) => {
+  const lines = [
+    `# ${title}`,
+    "",
+    `- 書き出し日時: ${exportedAt.toLocaleString()}`,
+    `- メッセージ数: ${entries.length}`,
+    `- 結合した音声: ${joinedAudio}`,
+    "",
+  ];
+  for (const entry of entries) {
+    const position =
+      entry.joinedStartSec !== null
+        ? ` @ ${formatTimestamp(entry.joinedStartSec)}`
+        : "";
+    lines.push(
+      `## ${entry.index}. ${entry.speaker}${position}`,
+      "",
+      `- 日時: ${new Date(entry.createdAt).toLocaleString()}`,
+      `- 長さ: ${entry.durationSec.toFixed(1)}s`,
+      `- ファイル: ${entry.file ?? "なし（音声ファイルを読み込めませんでした）"}`,
+      ""
+    );
+    const text = entry.text ?? entry.transcript;
+    if (text) {
+      lines.push(`> ${text.replace(/\n/g, "\n> ")}`, "");
+    }
+  }
+  return lines.join("\n");
+};
+
+/** 音声ファイルを読む。消えているなどで読めなければ null */
+const readClip = async (uri: string) => {
+  try {
+    return await readAudioBytes(uri);
+  } catch (error) {
+    console.error(`Failed to read ${uri}:`, error);
+    return null;
+  }
+};
+
+/**
+ * メッセージを結合した音声・元の音声・JSON/Markdown のマニフェストを
+ * 1 つの ZIP にまとめて書き出し、その URI と含められなかったメッセージを返す。
+ */
+export const exportMessages = async (
+  title: string,
+  messages: VoiceMessage[]
+): Promise<ExportResult> => {
+  if (messages.length === 0) {
+    throw new Error("書き出すメッセージがありません");
+  }
+
+  const exportedAt = new Date();
+  // 1 つ読めないだけで書き出し全体が失敗しないよう、1 件ずつ読む
+  const clips: (Uint8Array | null)[] = [];
+  for (const message of messages) {
+    clips.push(await readClip(message.uri));
+  }
+  const { joined, undecodable } = await joinAudio(clips);
+
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = messages.map((message, index) => {
+    const number = (index + 1).toString().padStart(3, "0");
+    const clip = clips[index];
+    let file: string | null = null;
+    if (clip) {
+      file = `messages/${number}-${message.from}.${extensionOf(message.uri)}`;
+      entries.push({ name: file, data: clip });
+    }
+    return {
+      index: index + 1,
+      id: message.id,
+      speaker: SPEAKER_LABELS[message.from],
+      createdAt: new Date(message.createdAt).toISOString(),
+      durationSec: message.durationSec,
+      file,
+      joinedStartSec: joined?.startTimes[index] ?? null,
+      text: message.text,
+      transcript: message.transcript,
+    };
+  });
+
+  const missing: ExportedMessageRef[] = manifest
+    .filter((entry) => entry.file === null)
+    .map(({ index, speaker }) => ({ index, speaker }));
+  const joinedAudio = joined
+    ? JOINED_AUDIO_NAME
+    : undecodable.length > 0
+      ? "なし（この端末でデコードできない形式の音声があります）"
+      : "なし（デコードできる音声がありません）";
+
+  const encoder = new TextEncoder();
+  if (joined) {
+    entries.unshift({ name: JOINED_AUDIO_NAME, data: joined.wav });
+  }
+  entries.push(
+    {
+      name: "manifest.json",
+      data: encoder.encode(
+        JSON.stringify(
+          {
+            title,
+            exportedAt: exportedAt.toISOString(),
+            joinedAudio: joined ? JOINED_AUDIO_NAME : null,
+            gapSec: GAP_SEC,
+            messages: manifest,
+          },
+          null,
+          2
+        )
+      ),
+    },
+    {
+      name: "transcript.md",
+      data: encoder.encode(
+        buildMarkdown(title, exportedAt, manifest, joinedAudio)
+      ),
+    }
+  );
+
+  const fileName = `${safeFileName(title)}-${exportedAt.getTime().toString(36)}.zip`;
+  const zip = createZip(entries, exportedAt);
+  let uri: string;
+  if (Platform.OS === "web") {
+    uri = URL.createObjectURL(
+      new Blob([new Uint8Array(zip)], { type: "application/zip" })
+    );
+  } else {
+    const exportDir = new Directory(Paths.cache, "exports");
+    if (!exportDir.exists) {
+      exportDir.create({ intermediates: true });
+    }
+    const file = new File(exportDir, fileName);
+    file.create();
+    file.write(zip);
+    uri = file.uri;
+  }
+  return {
+    uri,
+    fileName,
+    missing,
+    undecodable: undecodable.map((index) => ({
+      index: index + 1,
+      speaker: manifest[index].speaker,
+    })),
+  };
+};
+
+/** 書き出したファイルをシステムの共有シートに渡す（Web ではダウンロードする） */
+export const shareExport = async (
+  { uri, fileName }: ExportResult,
+  dialogTitle: string
+) => {
+  if (Platform.OS === "web") {
+    downloadUrlOnWeb(uri, fileName);
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("この端末では共有できません");
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: "application/zip",
+    UTI: "public.zip-archive",
+    dialogTitle,
+  });
+};
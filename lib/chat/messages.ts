@@ -0,0 +1,20 @@
+import type { AudioMetadata } from "@/lib/audio/metadata";
+
+import type { VoiceMessage } from "./types";
+
+export const createMessageId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+/** 音声メタデータのうち VoiceMessage に保存する項目 */
+export const audioFieldsOf = (
+  metadata: AudioMetadata
+): Pick<
+  VoiceMessage,
+  "durationSec" | "sampleRate" | "channels" | "codec" | "sizeBytes"
+> => ({
+  durationSec: metadata.durationSec,
+  sampleRate: metadata.sampleRate,
+  channels: metadata.channels,
+  codec: metadata.codec,
+  sizeBytes: metadata.sizeBytes || undefined,
+});
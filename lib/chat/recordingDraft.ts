@@ -0,0 +1,66 @@
+import { Platform } from "react-native";
+
+import { deleteAudioFile } from "@/lib/audio/bytes";
+import { readAudioMetadata, type AudioMetadata } from "@/lib/audio/metadata";
+import type { RecordingProfileId } from "@/lib/audio/recordingProfiles";
+import { trimAudioFile } from "@/lib/audio/trim";
+import { downsampleEnvelope } from "@/lib/audio/waveform";
+
+import { audioFieldsOf, createMessageId } from "./messages";
+import type { VoiceMessage } from "./types";
+
+/** 録音を止めてから送信するまでの下書き */
+export type RecordingDraft = {
+  /** 録音を始めたときのスレッド */
+  threadId: string;
+  uri: string;
+  metadata: AudioMetadata;
+  durationSec: number;
+  /** 録音中のメータリングから集めた音量 (0〜1) */
+  levels: number[];
+  recordingProfileId?: RecordingProfileId;
+};
+
+/** ファイルを切り出せるのは WAV (PCM) の録音と、ブラウザでデコードできる Web の録音 */
+export const canTrimDraft = (draft: RecordingDraft) =>
+  draft.metadata.container === "wav" || Platform.OS === "web";
+
+/**
+ * 下書きの startSec〜endSec を新しいファイルに切り出す。
+ * 切り出せた場合は元のファイルを削除し、切り出せなければ下書きをそのまま返す。
+ */
+export const trimDraft = async (
+  draft: RecordingDraft,
+  startSec: number,
+  endSec: number
+): Promise<RecordingDraft> => {
+  const uri = await trimAudioFile(draft.uri, startSec, endSec);
+  if (!uri) {
+    return draft;
+  }
+  deleteAudioFile(draft.uri);
+
+  const metadata = await readAudioMetadata(uri);
+  const { levels, durationSec } = draft;
+  const from = durationSec > 0 ? (levels.length * startSec) / durationSec : 0;
+  const to =
+    durationSec > 0 ? (levels.length * endSec) / durationSec : levels.length;
+  return {
+    ...draft,
+    uri,
+    metadata,
+    durationSec: metadata.durationSec || endSec - startSec,
+    levels: levels.slice(Math.floor(from), Math.ceil(to)),
+  };
+};
+
+export const messageFromDraft = (draft: RecordingDraft): VoiceMessage => ({
+  id: createMessageId(),
+  uri: draft.uri,
+  from: "user",
+  createdAt: Date.now(),
+  ...audioFieldsOf(draft.metadata),
+  durationSec: draft.durationSec,
+  waveform: downsampleEnvelope(draft.levels),
+  recordingProfileId: draft.recordingProfileId,
+});
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_CUSTOM_RECORDING_PROFILE,
+  DEFAULT_RECORDING_PROFILE_ID,
+  type CustomRecordingProfile,
+  type RecordingProfileId,
+} from "@/lib/audio/recordingProfiles";
+import type { TranscriptionProviderId } from "@/lib/transcription";
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const CHAT_SETTINGS_FILE = settingsFile("chat");
+
+/** hold: 長押しで録音／離して送信、tap: タップで開始・停止 */
+export type RecordMode = "hold" | "tap";
+
+export type ChatSettings = {
+  recordMode: RecordMode;
+  /** 録音を止めたら送信前に聞き直して切り詰められるようにする（自動停止時は除く） */
+  reviewBeforeSend: boolean;
+  /** 再生が終わったら次の Bot メッセージを続けて再生する */
+  autoPlay: boolean;
+  /** 録音に使う音質プロファイル */
+  recordingProfileId: RecordingProfileId;
+  customRecordingProfile: CustomRecordingProfile;
+  /** 録音の最大秒数（一時停止中は数えない）。0 なら無制限 */
+  maxRecordingSec: number;
+  /** 話し終えたあとの無音で自動的に送信する */
+  silenceDetection: boolean;
+  /** 無音検出が有効なとき、話し始める前の無音を削る（切り出せる録音形式のみ） */
+  trimLeadingSilence: boolean;
+  /** これより小さい音量 (dBFS) を無音とみなす */
+  silenceThresholdDb: number;
+  /** この秒数無音が続いたら録音を止める */
+  silenceDurationSec: number;
+  /** ユーザーの録音を文字起こしするプロバイダー。null なら文字起こししない */
+  transcriptionProviderId: TranscriptionProviderId | null;
+};
+
+export const MAX_RECORDING_OPTIONS = [30, 60, 120, 300, 0];
+export const SILENCE_DURATION_OPTIONS = [1, 1.5, 2, 3, 5];
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  recordMode: "hold",
+  reviewBeforeSend: true,
+  autoPlay: false,
+  recordingProfileId: DEFAULT_RECORDING_PROFILE_ID,
+  customRecordingProfile: DEFAULT_CUSTOM_RECORDING_PROFILE,
+  maxRecordingSec: 120,
+  silenceDetection: false,
+  trimLeadingSilence: true,
+  silenceThresholdDb: -45,
+  silenceDurationSec: 2,
+  transcriptionProviderId: "gemini",
+};
+
+// 項目が追加されても古い設定ファイルを読めるよう、既定値とマージする
+export const loadChatSettings = async (): Promise<ChatSettings> => ({
+  ...DEFAULT_CHAT_SETTINGS,
+  ...(await readJson<Partial<ChatSettings>>(CHAT_SETTINGS_FILE, {})),
+});
+
+export const saveChatSettings = (settings: ChatSettings) => {
+  writeJson(CHAT_SETTINGS_FILE, settings);
+};
@@ -0,0 +1,86 @@
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+
+import { deleteJson, readJson, writeJson } from "@/lib/storage/json";
+
+import type { ChatThread, VoiceMessage } from "./types";
+
+// ディレクトリ構成:
+//   voicechat/threads.json                  … スレッド一覧
+//   voicechat/threads/<id>/messages.json    … メッセージのメタデータ
+//   voicechat/threads/<id>/audio/<file>     … 録音ファイル
+// Web では JSON だけを localStorage に保存し、録音は blob: URL のまま使う
+const THREAD_INDEX_FILE = "voicechat/threads.json";
+
+export type ThreadIndex = {
+  activeThreadId: string | null;
+  threads: ChatThread[];
+};
+
+const threadDir = (threadId: string) =>
+  new Directory(Paths.document, "voicechat", "threads", threadId);
+
+const messagesFile = (threadId: string) =>
+  `voicechat/threads/${threadId}/messages.json`;
+
+const audioDir = (threadId: string) =>
+  new Directory(threadDir(threadId), "audio");
+
+export const loadThreadIndex = (): Promise<ThreadIndex> =>
+  readJson<ThreadIndex>(THREAD_INDEX_FILE, {
+    activeThreadId: null,
+    threads: [],
+  });
+
+export const saveThreadIndex = (index: ThreadIndex) => {
+  writeJson(THREAD_INDEX_FILE, index);
+};
+
+export const loadMessages = (threadId: string): Promise<VoiceMessage[]> =>
+  readJson<VoiceMessage[]>(messagesFile(threadId), []);
+
+export const saveMessages = (threadId: string, messages: VoiceMessage[]) => {
+  writeJson(messagesFile(threadId), messages);
+};
+
+/**
+ * 録音ファイルをスレッドの audio ディレクトリへ移動し、移動後の URI を返す。
+ * 既にアプリ管理下にあるファイルはそのまま返す。
+ */
+export const importAudioFile = (
+  threadId: string,
+  sourceUri: string,
+  messageId: string
+): string => {
+  if (Platform.OS === "web") {
+    return sourceUri;
+  }
+  const dir = audioDir(threadId);
+  if (sourceUri.startsWith(dir.uri)) {
+    return sourceUri;
+  }
+
+  const source = new File(sourceUri);
+  if (!source.exists) {
+    return sourceUri;
+  }
+
+  if (!dir.exists) {
+    dir.create({ intermediates: true, idempotent: true });
+  }
+  const destination = new File(dir, `${messageId}${source.extension}`);
+  source.move(destination);
+  return destination.uri;
+};
+
+/** スレッドのメッセージと録音ファイルをまとめて削除する */
+export const deleteThreadFiles = (threadId: string) => {
+  if (Platform.OS === "web") {
+    deleteJson(messagesFile(threadId));
+    return;
+  }
+  const dir = threadDir(threadId);
+  if (dir.exists) {
+    dir.delete();
+  }
+};
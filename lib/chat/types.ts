@@ -0,0 +1,33 @@
+import type { RecordingProfileId } from "@/lib/audio/recordingProfiles";
+
+export type VoiceMessage = {
+  id: string;
+  uri: string;
+  from: "user" | "bot";
+  durationSec: number;
+  createdAt: number;
+  // Bot の返答テキスト（音声合成の元になった文章）
+  text?: string;
+  // 録音ファイルのヘッダーから読み取った情報（読み取れなかった項目は省略）
+  sampleRate?: number;
+  channels?: number;
+  codec?: string;
+  sizeBytes?: number;
+  // 録音に使った音質プロファイル（Bot のメッセージにはない）
+  recordingProfileId?: RecordingProfileId;
+  // 録音中のメータリングから作った音量の包絡線 (0〜1)
+  waveform?: number[];
+  // ユーザーの録音の文字起こし（編集可能）と、失敗したときのエラー
+  transcript?: string;
+  transcriptError?: string;
+  // 最後に一時停止した位置（秒）と選択した再生速度
+  playbackPosition?: number;
+  playbackRate?: number;
+};
+
+export type ChatThread = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+};
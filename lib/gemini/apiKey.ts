@@ -0,0 +1,29 @@
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+
+const API_KEY_STORE_KEY = "gemini-api-key";
+
+// Web には安全な保存先がないため、メモリにだけ持つ
+let memoryApiKey = "";
+
+/** Gemini 画面で入力された API キーを読み込む（未設定なら空文字） */
+export const loadApiKey = async (): Promise<string> => {
+  if (Platform.OS === "web") {
+    return memoryApiKey;
+  }
+  return (await SecureStore.getItemAsync(API_KEY_STORE_KEY)) ?? "";
+};
+
+/** API キーをキーチェーン (Android は Keystore) に保存する。空なら削除する */
+export const saveApiKey = async (apiKey: string) => {
+  const trimmed = apiKey.trim();
+  if (Platform.OS === "web") {
+    memoryApiKey = trimmed;
+    return;
+  }
+  if (trimmed) {
+    await SecureStore.setItemAsync(API_KEY_STORE_KEY, trimmed);
+  } else {
+    await SecureStore.deleteItemAsync(API_KEY_STORE_KEY);
+  }
+};
@@ -0,0 +1,15 @@
+import { bytesToBase64, readAudioBytes } from "@/lib/audio/bytes";
+import { audioMimeTypeOf } from "@/lib/audio/metadata";
+
+import type { GeminiPart } from "./client";
+
+/** 音声ファイルを Gemini に渡す inline_data のパートにする */
+export const audioPartOf = async (uri: string): Promise<GeminiPart> => {
+  const bytes = await readAudioBytes(uri);
+  return {
+    inline_data: {
+      mime_type: audioMimeTypeOf(bytes, uri),
+      data: bytesToBase64(bytes),
+    },
+  };
+};
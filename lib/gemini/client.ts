@@ -0,0 +1,64 @@
+// ✅ 公式ドキュメント準拠のモデル＆エンドポイント
+// https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent
+// ローカルのモックサーバー (scripts/mock-gemini-server.js) で試すときは
+// EXPO_PUBLIC_GEMINI_API_BASE_URL でベース URL を差し替える
+export const GEMINI_API_BASE_URL =
+  process.env.EXPO_PUBLIC_GEMINI_API_BASE_URL ||
+  "https://generativelanguage.googleapis.com/v1beta";
+export const GEMINI_MODEL = "gemini-2.5-flash";
+export const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+export const geminiApiUrl = (model: string) =>
+  `${GEMINI_API_BASE_URL}/models/${model}:generateContent`;
+
+export const GEMINI_API_URL = geminiApiUrl(GEMINI_MODEL);
+
+export type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } };
+
+export type GeminiRequest = {
+  contents: { role?: "user" | "model"; parts: GeminiPart[] }[];
+  systemInstruction?: { parts: { text: string }[] };
+  generationConfig?: Record<string, unknown>;
+};
+
+export type GeminiResponsePart = {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+};
+
+/** generateContent を呼び出し、最初の候補の parts を返す */
+export const generateContent = async (
+  apiKey: string,
+  request: GeminiRequest,
+  model: string = GEMINI_MODEL
+): Promise<GeminiResponsePart[]> => {
+  const response = await fetch(geminiApiUrl(model), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      // ✅ 公式と同じくヘッダでAPIキーを渡す
+      "x-goog-api-key": apiKey,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || `APIエラー: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.candidates?.[0]?.content?.parts ?? [];
+};
+
+/** generateContent の応答からテキスト部分だけを連結して返す */
+export const generateText = async (
+  apiKey: string,
+  request: GeminiRequest,
+  model?: string
+): Promise<string> => {
+  const parts = await generateContent(apiKey, request, model);
+  return parts.map((part) => part.text ?? "").join("");
+};
@@ -0,0 +1,45 @@
+import { base64ToBytes, writeTempAudioFile } from "@/lib/audio/bytes";
+import { encodeWav } from "@/lib/audio/wav";
+
+import { GEMINI_TTS_MODEL, generateContent } from "./client";
+
+const TTS_VOICE_NAME = "Kore";
+const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * Gemini の音声合成モデルでテキストを読み上げ、WAV ファイルとして書き出す。
+ * 応答は "audio/L16;codec=pcm;rate=24000" の 16bit モノラル PCM で返ってくる。
+ */
+export const synthesizeSpeech = async (
+  apiKey: string,
+  text: string
+): Promise<string> => {
+  const parts = await generateContent(
+    apiKey,
+    {
+      contents: [{ parts: [{ text }] }],
+      generationConfig: {
+        responseModalities: ["AUDIO"],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: TTS_VOICE_NAME },
+          },
+        },
+      },
+    },
+    GEMINI_TTS_MODEL
+  );
+
+  const audio = parts.find((part) => part.inlineData)?.inlineData;
+  if (!audio) {
+    throw new Error("音声データを取得できませんでした");
+  }
+
+  const rateMatch = /rate=(\d+)/.exec(audio.mimeType);
+  const wav = encodeWav(base64ToBytes(audio.data), {
+    sampleRate: rateMatch ? Number(rateMatch[1]) : DEFAULT_PCM_SAMPLE_RATE,
+    channels: 1,
+    bitsPerSample: 16,
+  });
+  return writeTempAudioFile(wav, "wav", "audio/wav");
+};
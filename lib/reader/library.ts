@@ -0,0 +1,120 @@
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+
+import { deleteJson, readJson, writeJson } from "@/lib/storage/json";
+
+import { parseDocument } from "./parse";
+import type { ReaderContent, ReaderDocument } from "./types";
+
+// ディレクトリ構成:
+//   reader/documents.json        … 取り込んだ文書の一覧（読んだ位置・しおり）
+//   reader/documents/<id>.json   … 記法を取り除いた本文と章
+const INDEX_FILE = "reader/documents.json";
+
+const contentFile = (id: string) => `reader/documents/${id}.json`;
+
+const FORMATS: Record<string, ReaderDocument["format"]> = {
+  txt: "text",
+  md: "markdown",
+  markdown: "markdown",
+};
+
+/** 本文内の位置から読み進めた割合 (0〜100) を求める */
+export const readingProgress = (position: number, length: number) =>
+  length > 0 ? Math.round((position / length) * 100) : 0;
+
+export const createReaderId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+// 一覧画面と文書の画面で同じ一覧を使うため、モジュールで共有する
+let documents: ReaderDocument[] = [];
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getReaderDocuments = () => documents;
+
+export const subscribeReaderDocuments = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** 保存済みの一覧を一度だけ読み込む */
+export const ensureReaderDocumentsLoaded = () => {
+  if (!loading) {
+    loading = readJson<ReaderDocument[]>(INDEX_FILE, []).then((loaded) => {
+      documents = loaded;
+      notify();
+    });
+  }
+  return loading;
+};
+
+export const saveReaderDocuments = (next: ReaderDocument[]) => {
+  documents = next;
+  writeJson(INDEX_FILE, next);
+  notify();
+};
+
+export const loadReaderContent = (id: string) =>
+  readJson<ReaderContent | null>(contentFile(id), null);
+
+export const deleteReaderContent = (id: string) => {
+  deleteJson(contentFile(id));
+};
+
+/**
+ * .txt / .md ファイルを選んで取り込み、一覧に追加した文書を返す。
+ * 選択をキャンセルした場合は null を返す。
+ */
+export const importReaderDocument = async (): Promise<ReaderDocument | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    // Android では .md の MIME タイプが application/octet-stream になることがある
+    type: [
+      "text/plain",
+      "text/markdown",
+      "text/x-markdown",
+      "application/octet-stream",
+    ],
+  });
+  if (result.canceled) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const extension = asset.name.split(".").pop()?.toLowerCase() ?? "";
+  const format = FORMATS[extension];
+  if (!format) {
+    throw new Error(".txt または .md のファイルを選んでください");
+  }
+
+  // Web では選んだファイルの File オブジェクトから直接読む
+  const source = asset.file
+    ? await asset.file.text()
+    : await new File(asset.uri).text();
+  const parsed = parseDocument(source, format);
+
+  const imported: ReaderDocument = {
+    id: createReaderId(),
+    title: parsed.title ?? asset.name.replace(/\.[^.]+$/, ""),
+    fileName: asset.name,
+    format,
+    length: parsed.text.length,
+    chapterCount: parsed.chapters.length,
+    position: 0,
+    bookmarks: [],
+    importedAt: Date.now(),
+    lastReadAt: null,
+  };
+  const content: ReaderContent = {
+    text: parsed.text,
+    chapters: parsed.chapters,
+  };
+  writeJson(contentFile(imported.id), content);
+  await ensureReaderDocumentsLoaded();
+  saveReaderDocuments([imported, ...documents]);
+  return imported;
+};
@@ -0,0 +1,188 @@
+import type { ReaderChapter, ReaderContent } from "./types";
+
+export type ParsedDocument = ReaderContent & {
+  /** Markdown の最初の大見出し（なければ null） */
+  title: string | null;
+};
+
+type Heading = {
+  level: number;
+  title: string;
+  start: number;
+};
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const HORIZONTAL_RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+const BLOCK_PREFIX = /^\s*((>\s?)+|([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?)+/;
+
+// テキストファイルで見出しとみなす行（第1章、Chapter 2、プロローグなど）
+const TEXT_HEADING =
+  /^\s*(第[0-9０-９一二三四五六七八九十百千]+[章話部節編幕]|序章|終章|プロローグ|エピローグ|(chapter|part)\s+[0-9ivxlc]+\b)/i;
+const MAX_TEXT_HEADING_LENGTH = 40;
+
+// \* のようにエスケープされた記号は、記法の処理が終わるまで私用領域の文字に退避する
+const ESCAPED = /\\([\\`*_{}[\]()#+\-.!|>~])/g;
+const ESCAPE_BASE = 0xe000;
+const RESTORE = /[\ue000-\ue07f]/g;
+
+/** 読み上げると邪魔になる行内の記法（強調・リンク・コードなど）を取り除く */
+export const stripInlineMarkdown = (line: string) =>
+  line
+    .replace(ESCAPED, (_, ch: string) =>
+      String.fromCharCode(ESCAPE_BASE + ch.charCodeAt(0))
+    )
+    .replace(/<!--.*?-->/g, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+    .replace(/<((?:https?|mailto):[^>]+)>/g, "$1")
+    .replace(/<\/?[a-zA-Z][^>]*>/g, "")
+    .replace(/`+([^`]+)`+/g, "$1")
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?!\*)/g, "$1$2")
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(RESTORE, (ch) =>
+      String.fromCharCode(ch.charCodeAt(0) - ESCAPE_BASE)
+    );
+
+/**
+ * 見出しの中から章の区切りに使う深さを決める。
+ * 最も浅い見出しが 1 つだけ（文書のタイトル）なら、その次の深さまでを章とする。
+ */
+const chapterLevelOf = (headings: Heading[]) => {
+  const levels = Array.from(new Set(headings.map((h) => h.level))).sort(
+    (a, b) => a - b
+  );
+  if (levels.length === 0) {
+    return 0;
+  }
+  const topCount = headings.filter((h) => h.level === levels[0]).length;
+  return topCount === 1 && levels.length > 1 ? levels[1] : levels[0];
+};
+
+const buildChapters = (text: string, headings: Heading[]): ReaderChapter[] => {
+  const level = chapterLevelOf(headings);
+  const starts = headings.filter((h) => h.level <= level);
+  if (starts.length === 0) {
+    return [{ title: "本文", start: 0, end: text.length }];
+  }
+
+  const chapters: ReaderChapter[] = [];
+  // 最初の見出しより前に本文があれば、それも 1 つの章にする
+  if (text.slice(0, starts[0].start).trim()) {
+    chapters.push({ title: "（冒頭）", start: 0, end: starts[0].start });
+  }
+  starts.forEach((heading, index) => {
+    chapters.push({
+      title: heading.title,
+      start: heading.start,
+      end: starts[index + 1]?.start ?? text.length,
+    });
+  });
+  return chapters;
+};
+
+/**
+ * 取り込んだ .txt / .md を読み上げ用の本文と章に変換する。
+ * Markdown は記法を取り除き、見出しを章の区切りにする。
+ * テキストは「第1章」のような行を見出しとみなす。
+ */
+export const parseDocument = (
+  source: string,
+  format: "markdown" | "text"
+): ParsedDocument => {
+  const lines = source.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n").split("\n");
+  const headings: Heading[] = [];
+  let text = "";
+  let isInFence = false;
+
+  const pushLine = (line: string, heading?: { level: number }) => {
+    const trimmed = line.trimEnd();
+    // 空行は続けて 2 行以上入れない
+    if (!trimmed.trim() && (text === "" || text.endsWith("\n\n"))) {
+      return;
+    }
+    if (heading && trimmed.trim()) {
+      headings.push({ level: heading.level, title: trimmed.trim(), start: text.length });
+    }
+    text += `${trimmed}\n`;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (format === "text") {
+      const isHeading =
+        line.trim().length <= MAX_TEXT_HEADING_LENGTH &&
+        TEXT_HEADING.test(line);
+      pushLine(line.trim() ? line : "", isHeading ? { level: 1 } : undefined);
+      continue;
+    }
+
+    // コードブロックは囲みの行だけ取り除き、中身はそのまま読む
+    if (FENCE.test(line)) {
+      isInFence = !isInFence;
+      continue;
+    }
+    if (isInFence) {
+      pushLine(line);
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      pushLine(stripInlineMarkdown(atx[2]), { level: atx[1].length });
+      continue;
+    }
+    const next = lines[i + 1];
+    if (
+      line.trim() &&
+      !BLOCK_PREFIX.test(line) &&
+      next !== undefined &&
+      SETEXT_UNDERLINE.test(next)
+    ) {
+      pushLine(stripInlineMarkdown(line.trim()), {
+        level: next.trim().startsWith("=") ? 1 : 2,
+      });
+      i++;
+      continue;
+    }
+    if (HORIZONTAL_RULE.test(line)) {
+      pushLine("");
+      continue;
+    }
+    if (TABLE_SEPARATOR.test(line) || LINK_DEFINITION.test(line)) {
+      continue;
+    }
+
+    let body = line.replace(BLOCK_PREFIX, "");
+    // 表の行は区切りの | を空白にする
+    if (body.trim().startsWith("|")) {
+      body = body
+        .split("|")
+        .map((cell) => cell.trim())
+        .filter(Boolean)
+        .join("  ");
+    }
+    pushLine(stripInlineMarkdown(body));
+  }
+
+  text = text.trimEnd();
+  if (!text.trim()) {
+    throw new Error("読み上げるテキストがありません");
+  }
+  return {
+    title:
+      format === "markdown"
+        ? (headings.find((h) => h.level === 1)?.title ?? null)
+        : null,
+    text,
+    chapters: buildChapters(text, headings),
+  };
+};
@@ -0,0 +1,36 @@
+/** 見出しで区切った章。start / end は本文（記法を取り除いたテキスト）内の位置 */
+export type ReaderChapter = {
+  title: string;
+  start: number;
+  end: number;
+};
+
+export type ReaderBookmark = {
+  id: string;
+  /** 本文内の位置（文の先頭） */
+  position: number;
+  /** 一覧に表示する、しおりを挟んだ文の抜粋 */
+  excerpt: string;
+  createdAt: number;
+};
+
+/** 取り込んだ文書の一覧に載せる情報（本文は別ファイルに保存する） */
+export type ReaderDocument = {
+  id: string;
+  title: string;
+  fileName: string;
+  format: "markdown" | "text";
+  /** 本文の文字数 */
+  length: number;
+  chapterCount: number;
+  /** 最後に読んでいた位置（本文内の位置） */
+  position: number;
+  bookmarks: ReaderBookmark[];
+  importedAt: number;
+  lastReadAt: number | null;
+};
+
+export type ReaderContent = {
+  text: string;
+  chapters: ReaderChapter[];
+};
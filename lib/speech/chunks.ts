@@ -0,0 +1,164 @@
+import * as Speech from "expo-speech";
+
+import type { SpeechSettings } from "@/lib/speech/presets";
+
+/** 読み上げの単位。start / end は元のテキスト内の位置 */
+export type SpeechChunk = {
+  text: string;
+  start: number;
+  end: number;
+  /** この文だけ変える音声・言語・ピッチ・速度（マークアップで指定） */
+  settings?: Partial<SpeechSettings>;
+  /** 読み上げる前に空ける時間 (ms) */
+  pauseBeforeMs?: number;
+  /** 強調して読む（マークアップの [em]〜[/em]） */
+  emphasis?: boolean;
+};
+
+// 文末の記号（日本語の句点・感嘆符・疑問符と英語の ! ?）
+const SENTENCE_END = /[。．！？!?]/;
+// 文末の記号の後ろに続く閉じ括弧・引用符は同じ文に含める
+const CLOSING = /[」』）)\]】"'”’]/;
+// 長すぎる文を分けるときの区切り（読点・カンマ・セミコロン・コロン）
+const CLAUSE_END = /[、，,;；:：]/;
+const SPACE = /\s/;
+// 後ろに空白が続いても文末にしない英語の略語（小文字で比較する）
+const ABBREVIATIONS = new Set(["mr", "mrs", "ms", "dr", "prof", "st", "vs"]);
+// "." の直前の語。e.g や U.S のように途中に "." を挟む略語も 1 語として取る
+const WORD_BEFORE_DOT = /[A-Za-z]+(?:\.[A-Za-z]+)*$/;
+
+// iOS では Number.MAX_VALUE になるため、1 回の発話が長くなりすぎないよう上限を設ける
+const MAX_CHUNK_LENGTH = 4000;
+
+/** 元のテキストの [start, end) から前後の空白を除いたチャンクを作る */
+const toChunk = (text: string, start: number, end: number) => {
+  const raw = text.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  return trimmed
+    ? { text: trimmed, start: start + leading, end: start + leading + trimmed.length }
+    : null;
+};
+
+/** "." の直前が Mr や e.g のような略語か */
+const isAbbreviation = (text: string, i: number) => {
+  const word = WORD_BEFORE_DOT.exec(text.slice(Math.max(0, i - 20), i))?.[0];
+  return (
+    !!word && (word.includes(".") || ABBREVIATIONS.has(word.toLowerCase()))
+  );
+};
+
+/**
+ * "." は後ろが空白・閉じ括弧・末尾のときだけ文末とみなす（3.14 を分けない）。
+ * 後ろが空白でも Mr. や e.g. のような略語の "." では分けない
+ */
+const isSentenceEnd = (text: string, i: number) => {
+  const ch = text[i];
+  if (SENTENCE_END.test(ch) || ch === "\n") {
+    return true;
+  }
+  if (ch !== ".") {
+    return false;
+  }
+  const next = text[i + 1];
+  if (next === undefined || CLOSING.test(next)) {
+    return true;
+  }
+  return SPACE.test(next) && !isAbbreviation(text, i);
+};
+
+/** テキストを文に分ける。改行も文の区切りとして扱う */
+export const splitSentences = (text: string): SpeechChunk[] => {
+  const sentences: SpeechChunk[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < text.length) {
+    if (!isSentenceEnd(text, i)) {
+      i++;
+      continue;
+    }
+    // 「！？」「...」のような連続した記号と閉じ括弧をまとめて取り込む
+    let end = i + 1;
+    while (
+      end < text.length &&
+      (SENTENCE_END.test(text[end]) ||
+        text[end] === "." ||
+        CLOSING.test(text[end]))
+    ) {
+      end++;
+    }
+    const chunk = toChunk(text, start, end);
+    if (chunk) {
+      sentences.push(chunk);
+    }
+    start = end;
+    i = end;
+  }
+  const rest = toChunk(text, start, text.length);
+  if (rest) {
+    sentences.push(rest);
+  }
+  return sentences;
+};
+
+/**
+ * maxLength を超える文を読点や空白の位置で分ける。
+ * 区切りが見つからない場合は maxLength ちょうどで切る。
+ */
+const splitLongSentence = (
+  text: string,
+  sentence: SpeechChunk,
+  maxLength: number
+): SpeechChunk[] => {
+  const parts: SpeechChunk[] = [];
+  let start = sentence.start;
+  while (sentence.end - start > maxLength) {
+    const limit = start + maxLength;
+    let cut = -1;
+    for (let i = limit - 1; i > start; i--) {
+      if (CLAUSE_END.test(text[i])) {
+        cut = i + 1;
+        break;
+      }
+      if (cut < 0 && SPACE.test(text[i])) {
+        // 空白は読点より優先度が低いので、さらに前に読点がないか探し続ける
+        cut = i;
+      }
+    }
+    const end = cut > start ? cut : limit;
+    const part = toChunk(text, start, end);
+    if (part) {
+      parts.push(part);
+    }
+    start = end;
+  }
+  const rest = toChunk(text, start, sentence.end);
+  if (rest) {
+    parts.push(rest);
+  }
+  return parts;
+};
+
+/** 1 回の Speech.speak に渡せる最大の文字数 */
+export const maxChunkLength = () =>
+  Math.min(Speech.maxSpeechInputLength - 1, MAX_CHUNK_LENGTH);
+
+/**
+ * 読み上げるテキストを文ごとのチャンクに分ける。
+ * 1 文が上限を超える場合はさらに分けるので、どのチャンクも上限未満になる。
+ */
+export const chunkText = (
+  text: string,
+  maxLength: number = maxChunkLength()
+): SpeechChunk[] =>
+  splitSentences(text).flatMap((sentence) =>
+    sentence.text.length > maxLength
+      ? splitLongSentence(text, sentence, maxLength)
+      : [sentence]
+  );
+
+/** position を含むチャンク（文と文の間ならその次のチャンク）の番号を返す */
+export const chunkIndexAt = (chunks: SpeechChunk[], position: number) => {
+  const index = chunks.findIndex((chunk) => chunk.end > position);
+  return index < 0 ? chunks.length - 1 : index;
+};
@@ -0,0 +1,166 @@
+import type * as Speech from "expo-speech";
+
+import type { SpeechChunk } from "@/lib/speech/chunks";
+import type { SpeechSettings } from "@/lib/speech/presets";
+import { isEnhancedVoice } from "@/lib/speech/voices";
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const LANGUAGE_OPTIONS_FILE = settingsFile("speech-language");
+
+export type LanguageOptions = {
+  /** 文ごとに文字の種類から言語を判定し、その言語の音声で読む */
+  autoDetect: boolean;
+};
+
+const DEFAULT_LANGUAGE_OPTIONS: LanguageOptions = { autoDetect: false };
+
+// 言語コードの表示名（Hermes には Intl.DisplayNames がないため自前で持つ）
+const LANGUAGE_NAMES: Record<string, string> = {
+  ja: "日本語",
+  en: "英語",
+  zh: "中国語",
+  ko: "韓国語",
+  fr: "フランス語",
+  de: "ドイツ語",
+  es: "スペイン語",
+  it: "イタリア語",
+  pt: "ポルトガル語",
+  ru: "ロシア語",
+  ar: "アラビア語",
+  hi: "ヒンディー語",
+  th: "タイ語",
+  vi: "ベトナム語",
+  el: "ギリシャ語",
+  he: "ヘブライ語",
+};
+
+// 文字の種類ごとの判定（上から順に数える）
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  // ひらがな・カタカナ（半角を含む）
+  { language: "ja", pattern: /[\u3040-\u30ff\u31f0-\u31ff\uff66-\uff9f]/g },
+  { language: "ko", pattern: /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g },
+  { language: "zh", pattern: /[\u4e00-\u9fff\u3400-\u4dbf]/g },
+  { language: "ru", pattern: /[\u0400-\u04ff]/g },
+  { language: "el", pattern: /[\u0370-\u03ff]/g },
+  { language: "he", pattern: /[\u0590-\u05ff]/g },
+  { language: "ar", pattern: /[\u0600-\u06ff]/g },
+  { language: "hi", pattern: /[\u0900-\u097f]/g },
+  { language: "th", pattern: /[\u0e00-\u0e7f]/g },
+  { language: "en", pattern: /[a-zA-Z\u00c0-\u024f]/g },
+];
+
+// ラテン文字の言語を見分ける手がかりになる文字（なければ英語とみなす）
+const LATIN_HINTS: { language: string; pattern: RegExp }[] = [
+  // ベトナム語の声調記号は他の言語で使わないので最初に見る
+  { language: "vi", pattern: /[ơưđ\u1ea0-\u1ef9]/i },
+  { language: "es", pattern: /[ñ¿¡]/i },
+  { language: "de", pattern: /[ßäöü]/i },
+  { language: "pt", pattern: /[ãõ]/i },
+  { language: "fr", pattern: /[çœèêëàâîïùû]/i },
+];
+
+/** "ja-JP" → "ja" */
+export const baseLanguageOf = (language: string) =>
+  language.split(/[-_]/)[0].toLowerCase();
+
+export const languageLabel = (language: string) => {
+  const name = LANGUAGE_NAMES[baseLanguageOf(language)];
+  return name ? `${name} (${language})` : language;
+};
+
+/** インストールされている音声の言語コードを、日本語と英語を先頭にして並べる */
+export const listVoiceLanguages = (voices: Speech.Voice[]) => {
+  const rank = (language: string) =>
+    ["ja", "en"].indexOf(baseLanguageOf(language)) + 1 || 3;
+  return Array.from(new Set(voices.map((v) => v.language))).sort(
+    (a, b) => rank(a) - rank(b) || a.localeCompare(b)
+  );
+};
+
+/**
+ * 文字の種類からテキストの言語（"ja" などの基本の言語コード）を推定する。
+ * かなが 1 文字でもあれば日本語、漢字だけなら hanLanguage（既定は中国語）とする。
+ * 文字が含まれなければ null を返す。
+ */
+export const detectLanguage = (
+  text: string,
+  hanLanguage: string = "zh"
+): string | null => {
+  const counts = SCRIPTS.map(({ language, pattern }) => ({
+    language,
+    count: text.match(pattern)?.length ?? 0,
+  }));
+  const count = (language: string) =>
+    counts.find((c) => c.language === language)?.count ?? 0;
+
+  if (count("ja") > 0) {
+    return "ja";
+  }
+  const top = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  if (top.count === 0) {
+    return null;
+  }
+  if (top.language === "zh") {
+    return hanLanguage;
+  }
+  if (top.language === "en") {
+    return LATIN_HINTS.find((h) => h.pattern.test(text))?.language ?? "en";
+  }
+  return top.language;
+};
+
+/**
+ * 基本の言語コードに合う音声を選ぶ。preferred と同じ言語なら preferred の音声を、
+ * そうでなければ Enhanced の音声を優先する。
+ */
+export const pickVoiceFor = (
+  language: string,
+  voices: Speech.Voice[],
+  preferred: SpeechSettings
+): { language: string; voice?: string } | null => {
+  if (baseLanguageOf(preferred.language) === language) {
+    return { language: preferred.language, voice: preferred.voice };
+  }
+  const candidates = voices.filter(
+    (v) => baseLanguageOf(v.language) === language
+  );
+  if (candidates.length === 0) {
+    return null;
+  }
+  const voice = candidates.find(isEnhancedVoice) ?? candidates[0];
+  return { language: voice.language, voice: voice.identifier };
+};
+
+/**
+ * 文ごとに言語を判定し、画面で選んだ言語と違う文にはその言語の音声を割り当てる。
+ * マークアップで言語や音声を指定した文と、判定できなかった文はそのままにする。
+ */
+export const applyAutoLanguage = (
+  text: string,
+  chunks: SpeechChunk[],
+  voices: Speech.Voice[],
+  settings: SpeechSettings
+): SpeechChunk[] => {
+  // かなを含む文章の中の漢字だけの文（見出しなど）は日本語として読む
+  const hanLanguage = detectLanguage(text) === "ja" ? "ja" : "zh";
+  return chunks.map((chunk) => {
+    if (chunk.settings?.language || chunk.settings?.voice) {
+      return chunk;
+    }
+    const detected = detectLanguage(chunk.text, hanLanguage);
+    const choice = detected && pickVoiceFor(detected, voices, settings);
+    if (!choice || choice.language === settings.language) {
+      return chunk;
+    }
+    return { ...chunk, settings: { ...chunk.settings, ...choice } };
+  });
+};
+
+export const loadLanguageOptions = async (): Promise<LanguageOptions> => ({
+  ...DEFAULT_LANGUAGE_OPTIONS,
+  ...(await readJson<Partial<LanguageOptions>>(LANGUAGE_OPTIONS_FILE, {})),
+});
+
+export const saveLanguageOptions = (options: LanguageOptions) => {
+  writeJson(LANGUAGE_OPTIONS_FILE, options);
+};
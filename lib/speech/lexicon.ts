@@ -0,0 +1,193 @@
+import { Directory, File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+
+import { downloadOnWeb } from "@/lib/storage/download";
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const LEXICON_FILE = settingsFile("pronunciation-lexicon");
+
+/** 読み辞書の 1 項目。surface を reading に置き換えてから読み上げる */
+export type LexiconEntry = {
+  id: string;
+  /** 置き換える表記（isRegex なら正規表現） */
+  surface: string;
+  /** 読み・置き換え後の文字列。正規表現なら $1 などで参照できる */
+  reading: string;
+  isRegex: boolean;
+  /** "ja" や "en-US" のように指定した言語の読み上げだけで使う。null なら全言語 */
+  language: string | null;
+};
+
+export const createLexiconEntryId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+/** 正規表現として正しくなければエラーメッセージを返す */
+export const validateLexiconEntry = (
+  entry: Pick<LexiconEntry, "surface" | "isRegex">
+): string | null => {
+  if (!entry.surface) {
+    return "表記を入力してください";
+  }
+  if (!entry.isRegex) {
+    return null;
+  }
+  try {
+    new RegExp(entry.surface, "g");
+    return null;
+  } catch (error) {
+    return `正規表現が正しくありません: ${
+      error instanceof Error ? error.message : entry.surface
+    }`;
+  }
+};
+
+/** "ja" は "ja-JP" にも当てはまるよう、言語コードの前方一致で判定する */
+const matchesLanguage = (entry: LexiconEntry, language: string) => {
+  if (!entry.language) {
+    return true;
+  }
+  const scope = entry.language.toLowerCase().replace(/_/g, "-");
+  const target = language.toLowerCase().replace(/_/g, "-");
+  return target === scope || target.startsWith(`${scope}-`);
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 読み上げる言語に当てはまる項目で text を置き換える。
+ * 長い表記から順に当てはめ、短い表記が長い表記の一部を先に置き換えないようにする。
+ */
+export const applyLexicon = (
+  text: string,
+  entries: LexiconEntry[],
+  language: string
+) =>
+  entries
+    .filter((e) => matchesLanguage(e, language) && !validateLexiconEntry(e))
+    .sort((a, b) => b.surface.length - a.surface.length)
+    .reduce((result, entry) => {
+      const pattern = new RegExp(
+        entry.isRegex ? entry.surface : escapeRegExp(entry.surface),
+        "g"
+      );
+      // 正規表現でないときは $ を文字としてそのまま使う
+      return entry.isRegex
+        ? result.replace(pattern, entry.reading)
+        : result.replace(pattern, () => entry.reading);
+    }, text);
+
+// 読み上げ（lib/speech/player）と管理画面で同じ辞書を使うため、モジュールで共有する
+let lexicon: LexiconEntry[] = [];
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getLexicon = () => lexicon;
+
+export const subscribeLexicon = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** 保存済みの辞書を一度だけ読み込む */
+export const ensureLexiconLoaded = () => {
+  if (!loading) {
+    loading = readJson<LexiconEntry[]>(LEXICON_FILE, []).then((loaded) => {
+      lexicon = loaded;
+      notify();
+    });
+  }
+  return loading;
+};
+
+export const saveLexicon = (entries: LexiconEntry[]) => {
+  lexicon = entries;
+  writeJson(LEXICON_FILE, entries);
+  notify();
+};
+
+/** 書き出し用の JSON（id は含めない） */
+export const lexiconToJson = (entries: LexiconEntry[]) =>
+  JSON.stringify(
+    entries.map(({ surface, reading, isRegex, language }) => ({
+      surface,
+      reading,
+      isRegex,
+      language,
+    })),
+    null,
+    2
+  );
+
+/** 読み込んだ JSON を検証して項目に変換する。不正な内容ならエラーを投げる */
+export const parseLexiconJson = (json: string): LexiconEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("JSON として読み込めませんでした");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("辞書は配列の JSON で指定してください");
+  }
+
+  return parsed.map((item, index) => {
+    const value = item as Partial<LexiconEntry>;
+    if (
+      typeof value.surface !== "string" ||
+      typeof value.reading !== "string"
+    ) {
+      throw new Error(`${index + 1} 件目に surface と reading がありません`);
+    }
+    const entry: LexiconEntry = {
+      id: createLexiconEntryId() + index,
+      surface: value.surface,
+      reading: value.reading,
+      isRegex: value.isRegex === true,
+      language:
+        typeof value.language === "string" && value.language.trim()
+          ? value.language.trim()
+          : null,
+    };
+    const error = validateLexiconEntry(entry);
+    if (error) {
+      throw new Error(`${index + 1} 件目: ${error}`);
+    }
+    return entry;
+  });
+};
+
+/** 辞書を JSON ファイルに書き出して共有シートを開く（Web ではダウンロードする） */
+export const shareLexicon = async (entries: LexiconEntry[]) => {
+  if (Platform.OS === "web") {
+    downloadOnWeb(
+      lexiconToJson(entries),
+      "pronunciation-lexicon.json",
+      "application/json"
+    );
+    return;
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("この端末では共有できません");
+  }
+  const exportDir = new Directory(Paths.cache, "exports");
+  if (!exportDir.exists) {
+    exportDir.create({ intermediates: true });
+  }
+  const file = new File(exportDir, "pronunciation-lexicon.json");
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(lexiconToJson(entries));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "application/json",
+    UTI: "public.json",
+    dialogTitle: "読み辞書",
+  });
+};
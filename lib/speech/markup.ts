@@ -0,0 +1,231 @@
+import type * as Speech from "expo-speech";
+
+import { chunkText, type SpeechChunk } from "@/lib/speech/chunks";
+import {
+  MAX_SPEECH_VALUE,
+  MIN_SPEECH_VALUE,
+  type SpeechSettings,
+} from "@/lib/speech/presets";
+
+/** 不正なタグの位置（元のテキスト内）とエラー内容 */
+export type MarkupError = {
+  start: number;
+  end: number;
+  message: string;
+};
+
+export type CompiledMarkup = {
+  chunks: SpeechChunk[];
+  errors: MarkupError[];
+  /** タグを 1 つでも含むか（含むならタグを除いた chunks で読み上げる） */
+  hasTags: boolean;
+};
+
+// [pause 800ms] / [voice=Kyoko] / [rate=1.3] / [/em] のような英字で始まるタグだけを拾う。
+// [1] のような英字以外で始まる括弧はそのまま読み上げる
+const TAG = /\[(\/?[a-zA-Z]+)(?:[ =]([^\]\n]*))?\]/g;
+const PAUSE = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/;
+const LANGUAGE = /^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]+)*$/;
+
+const DEFAULT_PAUSE_MS = 500;
+const MAX_PAUSE_MS = 10000;
+// タグの値にこれを指定すると、画面で選んでいる設定に戻す
+const RESET_VALUE = "default";
+
+export const MARKUP_HELP =
+  "[pause 800ms] 間を空ける / [voice=音声名] 音声 / [rate=1.3] 速度 / " +
+  "[pitch=1.2] ピッチ / [lang=en-US] 言語 / [em]〜[/em] 強調 / " +
+  "[reset] 元に戻す（値に default で個別に戻す）";
+
+/** タグで変えた設定。次に変えるまで後ろの文に引き継ぐ */
+type MarkupState = {
+  overrides: Partial<SpeechSettings>;
+  emphasis: boolean;
+};
+
+const findVoice = (voices: Speech.Voice[], value: string) => {
+  const needle = value.toLowerCase();
+  return voices.find(
+    (v) =>
+      v.identifier.toLowerCase() === needle || v.name.toLowerCase() === needle
+  );
+};
+
+const parseSpeechValue = (value: string) => {
+  const number = Number(value);
+  return Number.isFinite(number) &&
+    number >= MIN_SPEECH_VALUE &&
+    number <= MAX_SPEECH_VALUE
+    ? number
+    : null;
+};
+
+/**
+ * 1 つのタグを解釈し、現在の上書き設定を更新する。
+ * 間を空けるタグはその長さ (ms) を返す。不正なタグはエラーメッセージを投げる
+ */
+const applyTag = (
+  name: string,
+  value: string | undefined,
+  state: MarkupState,
+  voices: Speech.Voice[]
+): number => {
+  const { overrides } = state;
+  const trimmed = value?.trim() ?? "";
+  const isReset = trimmed.toLowerCase() === RESET_VALUE;
+
+  switch (name.toLowerCase()) {
+    case "pause": {
+      if (!trimmed) {
+        return DEFAULT_PAUSE_MS;
+      }
+      const match = PAUSE.exec(trimmed);
+      if (!match) {
+        throw new Error("pause は 800ms や 1.5s のように指定してください");
+      }
+      const ms = Number(match[1]) * (match[2] === "s" ? 1000 : 1);
+      if (ms > MAX_PAUSE_MS) {
+        throw new Error(`pause は ${MAX_PAUSE_MS / 1000} 秒までです`);
+      }
+      return ms;
+    }
+    case "voice": {
+      if (!trimmed) {
+        throw new Error("voice には音声の名前か識別子を指定してください");
+      }
+      if (isReset) {
+        delete overrides.voice;
+        delete overrides.language;
+        return 0;
+      }
+      // 音声一覧を取得できていない場合は確認せずにそのまま渡す
+      if (voices.length === 0) {
+        overrides.voice = trimmed;
+        return 0;
+      }
+      const voice = findVoice(voices, trimmed);
+      if (!voice) {
+        throw new Error(`音声「${trimmed}」が見つかりません`);
+      }
+      overrides.voice = voice.identifier;
+      overrides.language = voice.language;
+      return 0;
+    }
+    case "rate":
+    case "pitch": {
+      const key = name.toLowerCase() as "rate" | "pitch";
+      if (isReset) {
+        delete overrides[key];
+        return 0;
+      }
+      const number = parseSpeechValue(trimmed);
+      if (number === null) {
+        throw new Error(
+          `${key} は ${MIN_SPEECH_VALUE}〜${MAX_SPEECH_VALUE} の数値で指定してください`
+        );
+      }
+      overrides[key] = number;
+      return 0;
+    }
+    case "lang": {
+      if (isReset) {
+        delete overrides.language;
+        return 0;
+      }
+      if (!LANGUAGE.test(trimmed)) {
+        throw new Error("lang は ja-JP や en-US のように指定してください");
+      }
+      overrides.language = trimmed;
+      // 言語を変えたら前の言語の音声は使わない
+      delete overrides.voice;
+      return 0;
+    }
+    case "em": {
+      if (trimmed) {
+        throw new Error("[em] には値を指定できません");
+      }
+      if (state.emphasis) {
+        throw new Error("[em] の中で [em] は使えません");
+      }
+      state.emphasis = true;
+      return 0;
+    }
+    case "/em": {
+      if (!state.emphasis) {
+        throw new Error("[/em] に対応する [em] がありません");
+      }
+      state.emphasis = false;
+      return 0;
+    }
+    case "reset": {
+      for (const key of Object.keys(overrides) as (keyof SpeechSettings)[]) {
+        delete overrides[key];
+      }
+      state.emphasis = false;
+      return 0;
+    }
+    default:
+      throw new Error(`不明なタグ [${name}] です`);
+  }
+};
+
+/**
+ * マークアップ付きのテキストを読み上げる文の並びに変換する。
+ * タグで変えた設定は次に変えるまで続き、[pause] は次の文の前に間を空ける。
+ * [em] から [/em] までの文は強調して読む（閉じなければ最後まで）。
+ * 位置はすべて元のテキスト（タグを含む）内の位置。
+ */
+export const compileMarkup = (
+  source: string,
+  voices: Speech.Voice[] = []
+): CompiledMarkup => {
+  const chunks: SpeechChunk[] = [];
+  const errors: MarkupError[] = [];
+  const state: MarkupState = { overrides: {}, emphasis: false };
+  const { overrides } = state;
+  let pendingPauseMs = 0;
+  let cursor = 0;
+  let hasTags = false;
+
+  const pushText = (start: number, end: number) => {
+    const settings =
+      Object.keys(overrides).length > 0 ? { ...overrides } : undefined;
+    for (const chunk of chunkText(source.slice(start, end))) {
+      chunks.push({
+        ...chunk,
+        start: chunk.start + start,
+        end: chunk.end + start,
+        settings,
+        pauseBeforeMs: pendingPauseMs || undefined,
+        emphasis: state.emphasis || undefined,
+      });
+      pendingPauseMs = 0;
+    }
+  };
+
+  for (const match of source.matchAll(TAG)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    pushText(cursor, start);
+    cursor = end;
+    hasTags = true;
+    try {
+      pendingPauseMs += applyTag(match[1], match[2], state, voices);
+    } catch (error) {
+      errors.push({
+        start,
+        end,
+        message: error instanceof Error ? error.message : "不正なタグです",
+      });
+    }
+  }
+  pushText(cursor, source.length);
+
+  return { chunks, errors, hasTags };
+};
+
+/** エラー位置を「3 行目 12 文字目」のように表す */
+export const describePosition = (source: string, index: number) => {
+  const before = source.slice(0, index).split("\n");
+  return `${before.length} 行目 ${before[before.length - 1].length + 1} 文字目`;
+};
@@ -0,0 +1,292 @@
+import * as Speech from "expo-speech";
+import { Platform } from "react-native";
+
+import { chunkText, type SpeechChunk } from "@/lib/speech/chunks";
+import {
+  applyLexicon,
+  getLexicon,
+  type LexiconEntry,
+} from "@/lib/speech/lexicon";
+import {
+  MAX_SPEECH_VALUE,
+  MIN_SPEECH_VALUE,
+  speechOptionsOf,
+  type SpeechSettings,
+} from "@/lib/speech/presets";
+
+export type SpeechStatus = "idle" | "speaking" | "paused";
+
+/** 読み上げ中の単語の元のテキスト内の範囲 */
+export type SpeechBoundary = {
+  start: number;
+  end: number;
+};
+
+export type SpeechState = {
+  status: SpeechStatus;
+  /** 読み上げ中のテキスト。chunks の位置はこのテキスト内の位置 */
+  text: string;
+  chunks: SpeechChunk[];
+  /** 読み上げ中の文（読み上げていなければ -1） */
+  currentIndex: number;
+  /** 読み上げ中の単語。onBoundary が届かない環境では null のまま */
+  boundary: SpeechBoundary | null;
+};
+
+export type SpeakOptions = {
+  /** この文から読み上げる */
+  startIndex?: number;
+  onError?: (error: Error) => void;
+  /**
+   * 読み上げが終わったときに呼ばれる。最後まで読んだら true、
+   * 停止・エラー・別の読み上げへの差し替えで終わったら false
+   */
+  onEnd?: (completed: boolean) => void;
+  /** 文を読み始めるたびに呼ばれる（画面を離れても読み進めた位置を保存できる） */
+  onChunkStart?: (index: number) => void;
+  /** 保存済みの読み辞書の代わりに使う辞書（編集中の項目の試し読みなど） */
+  lexicon?: LexiconEntry[];
+};
+
+// Speech.pause / resume は iOS だけ。Android は API がなく、Web は pause が不安定なため
+// 今の文で止めてその文の頭から読み直すことで一時停止を再現する
+const SUPPORTS_NATIVE_PAUSE = Platform.OS === "ios";
+
+// [em] で強調した文は少しゆっくり、少し高い声で読む
+const EMPHASIS_RATE_SCALE = 0.85;
+const EMPHASIS_PITCH_SCALE = 1.15;
+
+const clampSpeechValue = (value: number) =>
+  Math.min(MAX_SPEECH_VALUE, Math.max(MIN_SPEECH_VALUE, value));
+
+const emphasize = (base: SpeechSettings): SpeechSettings => ({
+  ...base,
+  rate: clampSpeechValue(base.rate * EMPHASIS_RATE_SCALE),
+  pitch: clampSpeechValue(base.pitch * EMPHASIS_PITCH_SCALE),
+});
+
+const IDLE_STATE: SpeechState = {
+  status: "idle",
+  text: "",
+  chunks: [],
+  currentIndex: -1,
+  boundary: null,
+};
+
+let state = IDLE_STATE;
+let settings: SpeechSettings | null = null;
+let onError: ((error: Error) => void) | undefined;
+let onEnd: ((completed: boolean) => void) | undefined;
+let onChunkStart: ((index: number) => void) | undefined;
+let lexiconOverride: LexiconEntry[] | undefined;
+// 停止・スキップのたびに増やし、古い発話のコールバックを無視する
+let session = 0;
+// [pause] の間を待っている間は発話がないので、ネイティブの一時停止は使えない
+let isWaiting = false;
+// ネイティブの Speech.pause で止めたかどうか（再開の方法が変わる）
+let isNativePaused = false;
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<SpeechState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const finish = (completed: boolean) => {
+  // コールバックの中で次の読み上げを始められるよう、先に外してから呼ぶ
+  const callback = onEnd;
+  onEnd = undefined;
+  setState({ status: "idle", currentIndex: -1, boundary: null });
+  callback?.(completed);
+};
+
+// Web の一部のブラウザは charLength を返さないので、次の空白までを単語とみなす
+const wordLengthAt = (text: string, charIndex: number) => {
+  const match = /^\S+/.exec(text.slice(charIndex));
+  return match ? match[0].length : 1;
+};
+
+const speakChunk = (current: number, index: number) => {
+  if (current !== session) {
+    return;
+  }
+  const chunk = state.chunks[index];
+  if (!chunk || !settings) {
+    finish(chunk === undefined);
+    return;
+  }
+  setState({ status: "speaking", currentIndex: index, boundary: null });
+  onChunkStart?.(index);
+
+  // マークアップで指定された設定は画面で選んだ設定より優先する
+  const merged = { ...settings, ...chunk.settings };
+  const chunkSettings = chunk.emphasis ? emphasize(merged) : merged;
+  if (chunk.pauseBeforeMs) {
+    isWaiting = true;
+    setTimeout(() => {
+      if (current === session) {
+        isWaiting = false;
+        utter(current, index, chunkSettings);
+      }
+    }, chunk.pauseBeforeMs);
+    return;
+  }
+  utter(current, index, chunkSettings);
+};
+
+const utter = (
+  current: number,
+  index: number,
+  chunkSettings: SpeechSettings
+) => {
+  const chunk = state.chunks[index];
+  // 読み辞書で置き換えた文は位置がずれるため、単語の強調はせず文の強調だけにする
+  const spokenText = applyLexicon(
+    chunk.text,
+    lexiconOverride ?? getLexicon(),
+    chunkSettings.language
+  );
+  const canTrackBoundary = spokenText === chunk.text;
+  // すべてのコールバックは開始時のセッションのものだけ反映する
+  Speech.speak(spokenText, {
+    ...speechOptionsOf(chunkSettings),
+    onStart: () => {
+      if (current === session && state.status !== "paused") {
+        setState({ status: "speaking" });
+      }
+    },
+    // iOS・Android は { charIndex, charLength }、Web は SpeechSynthesisEvent が届く
+    onBoundary: (event: { charIndex: number; charLength?: number }) => {
+      if (current !== session || !canTrackBoundary) {
+        return;
+      }
+      const start = chunk.start + event.charIndex;
+      const length =
+        event.charLength || wordLengthAt(chunk.text, event.charIndex);
+      setState({
+        boundary: { start, end: Math.min(start + length, chunk.end) },
+      });
+    },
+    onDone: () => speakChunk(current, index + 1),
+    // 他の画面や試聴で Speech.stop() が呼ばれた場合も停止として扱う
+    onStopped: () => {
+      if (current === session) {
+        session++;
+        finish(false);
+      }
+    },
+    onError: (error) => {
+      if (current !== session) {
+        return;
+      }
+      session++;
+      const handleError = onError;
+      finish(false);
+      handleError?.(error);
+    },
+  });
+};
+
+/** index 番目の文から最後まで続けて読み上げる */
+const playFrom = (index: number) => {
+  const current = ++session;
+  isWaiting = false;
+  isNativePaused = false;
+  Speech.stop();
+  speakChunk(current, index);
+};
+
+export const getSpeechState = () => state;
+
+export const subscribeSpeech = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * テキストを文ごとに分けて読み上げる。読み上げ中のものは止めて差し替える。
+ * Speech.maxSpeechInputLength を超える長いテキストもそのまま渡せる。
+ */
+export const speak = (
+  text: string,
+  speechSettings: SpeechSettings,
+  options: SpeakOptions = {}
+) => {
+  speakChunks(text, chunkText(text), speechSettings, options);
+};
+
+/**
+ * 分割済みの文を読み上げる。マークアップのように文ごとに設定や間を
+ * 変えたい場合に使う。chunks の位置は text 内の位置にする。
+ */
+export const speakChunks = (
+  text: string,
+  chunks: SpeechChunk[],
+  speechSettings: SpeechSettings,
+  options: SpeakOptions = {}
+) => {
+  const previousOnEnd = onEnd;
+  settings = speechSettings;
+  onError = options.onError;
+  onEnd = options.onEnd;
+  onChunkStart = options.onChunkStart;
+  lexiconOverride = options.lexicon;
+  setState({ text, chunks });
+  playFrom(Math.min(Math.max(0, options.startIndex ?? 0), chunks.length));
+  // 読み上げの途中で差し替えた場合は、前の読み上げを終わったものとして知らせる
+  previousOnEnd?.(false);
+};
+
+export const stop = async () => {
+  session++;
+  isWaiting = false;
+  isNativePaused = false;
+  finish(false);
+  await Speech.stop();
+};
+
+export const pause = async () => {
+  if (state.status !== "speaking") {
+    return;
+  }
+  setState({ status: "paused" });
+  if (SUPPORTS_NATIVE_PAUSE && !isWaiting) {
+    isNativePaused = true;
+    await Speech.pause();
+    return;
+  }
+  // 読みかけの文の onDone・onStopped で状態が変わらないようにしてから止める
+  session++;
+  setState({ boundary: null });
+  await Speech.stop();
+};
+
+export const resume = async () => {
+  if (state.status !== "paused") {
+    return;
+  }
+  if (isNativePaused) {
+    isNativePaused = false;
+    setState({ status: "speaking" });
+    await Speech.resume();
+    return;
+  }
+  playFrom(state.currentIndex);
+};
+
+export const skipNext = () => {
+  if (state.currentIndex < 0) {
+    return;
+  }
+  // 最後の文で送った場合は最後まで読んだものとして終える
+  playFrom(state.currentIndex + 1);
+};
+
+export const skipPrevious = () => {
+  if (state.currentIndex < 0) {
+    return;
+  }
+  playFrom(Math.max(0, state.currentIndex - 1));
+};
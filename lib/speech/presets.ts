@@ -0,0 +1,143 @@
+import type * as Speech from "expo-speech";
+
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const SPEECH_PRESETS_FILE = settingsFile("speech-presets");
+
+/** 読み上げに使う音声・言語・ピッチ・速度 */
+export type SpeechSettings = {
+  /** Speech.Voice の identifier。未指定なら言語の既定の音声 */
+  voice?: string;
+  language: string;
+  pitch: number;
+  rate: number;
+};
+
+export type SpeechPreset = SpeechSettings & {
+  id: string;
+  name: string;
+};
+
+export type StoredSpeechPresets = {
+  presets: SpeechPreset[];
+  /** 最後に選んだプリセット。画面を開いたときに適用する */
+  activePresetId: string | null;
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  language: "ja-JP",
+  pitch: 1.0,
+  rate: 1.0,
+};
+
+// ピッチ・速度は 0.5〜2.0 を 0.1 刻みで変更する
+export const MIN_SPEECH_VALUE = 0.5;
+export const MAX_SPEECH_VALUE = 2.0;
+export const SPEECH_VALUE_STEP = 0.1;
+
+const DEFAULT_PRESETS: SpeechPreset[] = [
+  { id: "default", name: "標準", ...DEFAULT_SPEECH_SETTINGS },
+  {
+    id: "slow-ja",
+    name: "ゆっくり日本語ナレーション",
+    language: "ja-JP",
+    pitch: 1.0,
+    rate: 0.8,
+  },
+  {
+    id: "fast-en",
+    name: "Fast English news",
+    language: "en-US",
+    pitch: 1.0,
+    rate: 1.3,
+  },
+];
+
+export const createPresetId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+/** 0.1 刻みの値を丸める（浮動小数点の誤差で 0.30000000000000004 などにならないように） */
+export const roundSpeechValue = (value: number) =>
+  Math.min(
+    MAX_SPEECH_VALUE,
+    Math.max(MIN_SPEECH_VALUE, Math.round(value * 10) / 10)
+  );
+
+export const toSpeechSettings = (preset: SpeechSettings): SpeechSettings => ({
+  voice: preset.voice,
+  language: preset.language,
+  pitch: preset.pitch,
+  rate: preset.rate,
+});
+
+/** 現在の設定と同じ値のプリセットを探す（一致するチップを選択表示にする） */
+export const findMatchingPreset = (
+  presets: SpeechPreset[],
+  settings: SpeechSettings
+) =>
+  presets.find(
+    (p) =>
+      (p.voice ?? null) === (settings.voice ?? null) &&
+      p.language === settings.language &&
+      Math.abs(p.pitch - settings.pitch) < 0.01 &&
+      Math.abs(p.rate - settings.rate) < 0.01
+  ) ?? null;
+
+/** Speech.speak に渡すオプション（コールバック以外） */
+export const speechOptionsOf = (
+  settings: SpeechSettings
+): Speech.SpeechOptions => ({
+  language: settings.language,
+  pitch: settings.pitch,
+  rate: settings.rate,
+  voice: settings.voice,
+});
+
+export type SpeechPresetsState = StoredSpeechPresets & {
+  /** 保存済みのプリセットを読み込み終えたかどうか */
+  isLoaded: boolean;
+};
+
+// 複数の画面で同じプリセットを使うため、モジュールで共有する
+let state: SpeechPresetsState = {
+  presets: [],
+  activePresetId: null,
+  isLoaded: false,
+};
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getSpeechPresetsState = () => state;
+
+export const subscribeSpeechPresets = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** 保存済みのプリセットを一度だけ読み込む */
+export const ensureSpeechPresetsLoaded = () => {
+  if (!loading) {
+    loading = readJson<Partial<StoredSpeechPresets>>(
+      SPEECH_PRESETS_FILE,
+      {}
+    ).then((loaded) => {
+      state = {
+        presets: loaded.presets ?? DEFAULT_PRESETS,
+        activePresetId: loaded.activePresetId ?? null,
+        isLoaded: true,
+      };
+      notify();
+    });
+  }
+  return loading;
+};
+
+export const saveSpeechPresets = (value: StoredSpeechPresets) => {
+  state = { ...value, isLoaded: true };
+  writeJson(SPEECH_PRESETS_FILE, value);
+  notify();
+};
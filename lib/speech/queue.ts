@@ -0,0 +1,317 @@
+import type { SpeechChunk } from "@/lib/speech/chunks";
+import { getSpeechState, speak, speakChunks, stop } from "@/lib/speech/player";
+import type { SpeechSettings } from "@/lib/speech/presets";
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const QUEUE_FILE = settingsFile("reading-queue");
+
+/** どの画面から追加したか */
+export type QueueSource = "speech" | "gemini" | "transcript";
+
+/** off: 最後まで読んだら止める / all: 先頭に戻る / one: 同じ項目を繰り返す */
+export type RepeatMode = "off" | "all" | "one";
+
+export type QueueItem = {
+  id: string;
+  title: string;
+  text: string;
+  source: QueueSource;
+  /** この項目を読むときの音声・言語・ピッチ・速度 */
+  settings: SpeechSettings;
+  /** マークアップで分けた文（なければ読むときに文ごとに分ける） */
+  chunks?: SpeechChunk[];
+  addedAt: number;
+};
+
+type StoredQueue = {
+  items: QueueItem[];
+  /** 読み上げ中、または最後に読んだ項目 */
+  currentId: string | null;
+  repeat: RepeatMode;
+  /** 項目と項目の間に空ける時間 (ms) */
+  gapMs: number;
+};
+
+/** 現在のキューから変更内容を作る。読み込み前の操作は読み込んだキューにもう一度当てる */
+type QueueChange = (queue: StoredQueue) => Partial<StoredQueue>;
+
+export type QueueState = StoredQueue & {
+  /** 項目の間の待ち時間も含めてキューを再生中かどうか */
+  isPlaying: boolean;
+};
+
+export const MAX_QUEUE_GAP_MS = 10000;
+export const QUEUE_GAP_STEP_MS = 500;
+
+const TITLE_LENGTH = 30;
+
+const DEFAULT_QUEUE: StoredQueue = {
+  items: [],
+  currentId: null,
+  repeat: "off",
+  gapMs: 1000,
+};
+
+export const SOURCE_LABELS: Record<QueueSource, string> = {
+  speech: "TTS",
+  gemini: "Gemini",
+  transcript: "文字起こし",
+};
+
+export const createQueueItemId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+/** 最初の行の先頭を項目の名前にする */
+const titleOf = (text: string) => {
+  const firstLine = text.trim().split("\n")[0];
+  return firstLine.length > TITLE_LENGTH
+    ? `${firstLine.slice(0, TITLE_LENGTH)}…`
+    : firstLine;
+};
+
+// 複数の画面から追加・操作するため、モジュールでキューを共有する
+let stored = DEFAULT_QUEUE;
+let isPlaying = false;
+let state: QueueState = { ...stored, isPlaying };
+let loading: Promise<void> | null = null;
+// 読み込みが終わるまでは保存せず、読み込んだキューに順に当て直す操作
+let changesBeforeLoad: QueueChange[] | null = [];
+// 再生・停止・スキップのたびに増やし、古い項目の終了や待ち時間を無視する
+let session = 0;
+let gapTimer: ReturnType<typeof setTimeout> | null = null;
+let onError: ((error: Error) => void) | undefined;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  state = { ...stored, isPlaying };
+  listeners.forEach((listener) => listener());
+};
+
+const applyChange = (queue: StoredQueue, change: QueueChange) => ({
+  ...queue,
+  ...change(queue),
+});
+
+const update = (change: QueueChange) => {
+  stored = applyChange(stored, change);
+  if (changesBeforeLoad) {
+    changesBeforeLoad.push(change);
+    ensureQueueLoaded();
+  } else {
+    writeJson(QUEUE_FILE, stored);
+  }
+  notify();
+};
+
+const clearGapTimer = () => {
+  if (gapTimer) {
+    clearTimeout(gapTimer);
+    gapTimer = null;
+  }
+};
+
+const setPlaying = (value: boolean) => {
+  isPlaying = value;
+  notify();
+};
+
+export const getQueueState = () => state;
+
+export const subscribeQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * 保存済みのキューを一度だけ読み込む。
+ * 読み込み中の操作は失わないよう、読み込んだキューに当て直して保存する
+ */
+export const ensureQueueLoaded = () => {
+  if (!loading) {
+    loading = readJson<Partial<StoredQueue>>(QUEUE_FILE, {}).then(
+      (loaded) => {
+        const pending = changesBeforeLoad ?? [];
+        changesBeforeLoad = null;
+        // 読み込み前の追加・削除・クリアなどを、読み込んだキューに同じ順で当て直す
+        stored = pending.reduce(applyChange, { ...DEFAULT_QUEUE, ...loaded });
+        if (pending.length > 0) {
+          writeJson(QUEUE_FILE, stored);
+        }
+        notify();
+      }
+    );
+  }
+  return loading;
+};
+
+/** index 番目の項目を読み、読み終えたら間を空けて次の項目へ進む */
+const playAt = (index: number) => {
+  const current = ++session;
+  clearGapTimer();
+  const item = stored.items[index];
+  if (!item) {
+    setPlaying(false);
+    return;
+  }
+  isPlaying = true;
+  update(() => ({ currentId: item.id }));
+
+  const options = {
+    onError,
+    onEnd: (completed: boolean) => {
+      if (current !== session) {
+        return;
+      }
+      // 停止・エラー・別の画面での読み上げで終わった場合はキューも止める
+      if (!completed) {
+        setPlaying(false);
+        return;
+      }
+      playNextAfter(current, item.id);
+    },
+  };
+  if (item.chunks) {
+    speakChunks(item.text, item.chunks, item.settings, options);
+  } else {
+    speak(item.text, item.settings, options);
+  }
+};
+
+const playNextAfter = (current: number, itemId: string) => {
+  const index = stored.items.findIndex((item) => item.id === itemId);
+  let next = stored.repeat === "one" ? index : index + 1;
+  if (next >= stored.items.length && stored.repeat === "all") {
+    next = 0;
+  }
+  if (index < 0 || next >= stored.items.length) {
+    setPlaying(false);
+    return;
+  }
+  if (stored.gapMs <= 0) {
+    playAt(next);
+    return;
+  }
+  gapTimer = setTimeout(() => {
+    gapTimer = null;
+    if (current !== session) {
+      return;
+    }
+    // 待っている間に別の画面で読み上げを始めていたら割り込まない
+    if (getSpeechState().status !== "idle") {
+      setPlaying(false);
+      return;
+    }
+    playAt(next);
+  }, stored.gapMs);
+};
+
+export const addToQueue = (
+  text: string,
+  settings: SpeechSettings,
+  source: QueueSource,
+  options: { title?: string; chunks?: SpeechChunk[] } = {}
+): QueueItem => {
+  const item: QueueItem = {
+    id: createQueueItemId(),
+    title: options.title?.trim() || titleOf(text),
+    text,
+    source,
+    settings,
+    chunks: options.chunks,
+    addedAt: Date.now(),
+  };
+  update((queue) => ({ items: [...queue.items, item] }));
+  return item;
+};
+
+export const updateQueueItem = (
+  id: string,
+  changes: Partial<Pick<QueueItem, "title" | "settings">>
+) => {
+  update((queue) => ({
+    items: queue.items.map((item) =>
+      item.id === id ? { ...item, ...changes } : item
+    ),
+  }));
+};
+
+export const removeFromQueue = (id: string) => {
+  if (isPlaying && stored.currentId === id) {
+    stopQueue();
+  }
+  update((queue) => ({
+    items: queue.items.filter((item) => item.id !== id),
+    currentId: queue.currentId === id ? null : queue.currentId,
+  }));
+};
+
+/** 項目を delta だけ前後に動かす */
+export const moveQueueItem = (id: string, delta: number) => {
+  update((queue) => {
+    const index = queue.items.findIndex((item) => item.id === id);
+    const target = index + delta;
+    if (index < 0 || target < 0 || target >= queue.items.length) {
+      return {};
+    }
+    const items = [...queue.items];
+    const [item] = items.splice(index, 1);
+    items.splice(target, 0, item);
+    return { items };
+  });
+};
+
+export const clearQueue = () => {
+  stopQueue();
+  update(() => ({ items: [], currentId: null }));
+};
+
+export const setQueueRepeat = (repeat: RepeatMode) => {
+  update(() => ({ repeat }));
+};
+
+export const setQueueGap = (gapMs: number) => {
+  const clamped = Math.min(Math.max(0, gapMs), MAX_QUEUE_GAP_MS);
+  update(() => ({ gapMs: clamped }));
+};
+
+/**
+ * キューを読み上げる。id を指定しなければ最後に読んでいた項目から、
+ * それもなければ先頭から読む。
+ */
+export const playQueue = (
+  id?: string,
+  options: { onError?: (error: Error) => void } = {}
+) => {
+  onError = options.onError;
+  const startId = id ?? stored.currentId;
+  const index = stored.items.findIndex((item) => item.id === startId);
+  playAt(Math.max(0, index));
+};
+
+export const stopQueue = () => {
+  session++;
+  clearGapTimer();
+  if (isPlaying) {
+    setPlaying(false);
+    stop();
+  }
+};
+
+/** 前後の項目へ飛ばす。繰り返しが all なら端から反対の端へ回る */
+export const skipQueueItem = (delta: 1 | -1) => {
+  if (stored.items.length === 0) {
+    return;
+  }
+  const index = stored.items.findIndex((item) => item.id === stored.currentId);
+  let next = index + delta;
+  if (stored.repeat === "all") {
+    next = (next + stored.items.length) % stored.items.length;
+  }
+  if (next < 0 || next >= stored.items.length) {
+    stopQueue();
+    return;
+  }
+  playAt(next);
+};
@@ -0,0 +1,79 @@
+import * as Speech from "expo-speech";
+
+import { readJson, settingsFile, writeJson } from "@/lib/storage/json";
+
+const FAVORITE_VOICES_FILE = settingsFile("favorite-voices");
+
+export type VoiceGroup = {
+  language: string;
+  voices: Speech.Voice[];
+};
+
+// 言語ごとの試聴用の文（見つからなければ英語）
+const SAMPLE_TEXTS: Record<string, string> = {
+  ja: "こんにちは。この声で読み上げます。",
+  en: "Hello, this is how I sound.",
+  zh: "你好，这是我的声音。",
+  ko: "안녕하세요, 이 목소리로 읽어 드립니다.",
+  fr: "Bonjour, voici ma voix.",
+  de: "Hallo, so klingt meine Stimme.",
+  es: "Hola, así suena mi voz.",
+  it: "Ciao, questa è la mia voce.",
+  pt: "Olá, esta é a minha voz.",
+};
+
+export const sampleTextFor = (language: string) =>
+  SAMPLE_TEXTS[language.split(/[-_]/)[0].toLowerCase()] ?? SAMPLE_TEXTS.en;
+
+export const isEnhancedVoice = (voice: Speech.Voice) =>
+  voice.quality === Speech.VoiceQuality.Enhanced;
+
+/** 名前・言語コード・識別子のどれかに query を含む音声を残す */
+export const filterVoices = (
+  voices: Speech.Voice[],
+  query: string,
+  enhancedOnly: boolean
+) => {
+  const needle = query.trim().toLowerCase();
+  return voices.filter(
+    (voice) =>
+      (!enhancedOnly || isEnhancedVoice(voice)) &&
+      (!needle ||
+        voice.name.toLowerCase().includes(needle) ||
+        voice.language.toLowerCase().includes(needle) ||
+        voice.identifier.toLowerCase().includes(needle))
+  );
+};
+
+/** 言語コード順にまとめる。preferredLanguage と同じ言語のグループを先頭にする */
+export const groupVoicesByLanguage = (
+  voices: Speech.Voice[],
+  preferredLanguage?: string
+): VoiceGroup[] => {
+  const groups = new Map<string, Speech.Voice[]>();
+  for (const voice of voices) {
+    const list = groups.get(voice.language) ?? [];
+    list.push(voice);
+    groups.set(voice.language, list);
+  }
+
+  const preferred = preferredLanguage?.split(/[-_]/)[0].toLowerCase();
+  const rank = (language: string) =>
+    preferred && language.toLowerCase().startsWith(preferred) ? 0 : 1;
+
+  return Array.from(groups, ([language, list]) => ({
+    language,
+    voices: list.sort((a, b) => a.name.localeCompare(b.name)),
+  })).sort(
+    (a, b) =>
+      rank(a.language) - rank(b.language) ||
+      a.language.localeCompare(b.language)
+  );
+};
+
+export const loadFavoriteVoices = (): Promise<string[]> =>
+  readJson<string[]>(FAVORITE_VOICES_FILE, []);
+
+export const saveFavoriteVoices = (identifiers: string[]) => {
+  writeJson(FAVORITE_VOICES_FILE, identifiers);
+};
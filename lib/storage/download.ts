@@ -0,0 +1,21 @@
+// expo-file-system と共有シートが使えない Web では、書き出したものをダウンロードさせる
+
+/** blob: URL などをファイル名を付けてダウンロードさせる */
+export const downloadUrlOnWeb = (url: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+/** データを Blob にしてダウンロードさせる */
+export const downloadOnWeb = (
+  data: BlobPart,
+  fileName: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  downloadUrlOnWeb(url, fileName);
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるため少し待つ
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,52 @@
+import { File, Paths } from "expo-file-system";
+import { Platform } from "react-native";
+
+// expo-file-system は Web に対応していないため、Web では localStorage に
+// 同じパスをキーにして保存する
+const IS_WEB = Platform.OS === "web";
+
+/** documents 以下の相対パス（例: settings/chat.json）の JSON ファイル */
+const fileOf = (path: string) => new File(Paths.document, path);
+
+/** アプリ設定を保存する JSON のパス（documents/settings/<name>.json） */
+export const settingsFile = (name: string) => `settings/${name}.json`;
+
+export const readJson = async <T>(path: string, fallback: T): Promise<T> => {
+  try {
+    if (IS_WEB) {
+      const raw = localStorage.getItem(path);
+      return raw === null ? fallback : (JSON.parse(raw) as T);
+    }
+    const file = fileOf(path);
+    if (!file.exists) {
+      return fallback;
+    }
+    return JSON.parse(await file.text()) as T;
+  } catch (error) {
+    console.error(`Failed to read ${path}:`, error);
+    return fallback;
+  }
+};
+
+export const writeJson = (path: string, value: unknown) => {
+  if (IS_WEB) {
+    localStorage.setItem(path, JSON.stringify(value));
+    return;
+  }
+  const file = fileOf(path);
+  if (!file.exists) {
+    file.create({ intermediates: true });
+  }
+  file.write(JSON.stringify(value));
+};
+
+export const deleteJson = (path: string) => {
+  if (IS_WEB) {
+    localStorage.removeItem(path);
+    return;
+  }
+  const file = fileOf(path);
+  if (file.exists) {
+    file.delete();
+  }
+};
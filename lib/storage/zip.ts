@@ -0,0 +1,111 @@
+import { dataViewOf } from "@/lib/audio/bytes";
+
+export type ZipEntry = {
+  /** アーカイブ内のパス（"/" 区切り） */
+  name: string;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encodeUtf8 = (text: string) => new TextEncoder().encode(text);
+
+// MS-DOS 形式の日時（2 秒単位）
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+// ファイル名が UTF-8 であることを示すフラグ
+const UTF8_FLAG = 0x0800;
+
+/**
+ * 無圧縮 (stored) の ZIP アーカイブを作る。
+ * 音声はもともと圧縮されているか PCM なので、圧縮しなくても共有には十分。
+ */
+export const createZip = (entries: ZipEntry[], modified = new Date()) => {
+  const { time, date } = dosDateTime(modified);
+  const records = entries.map((entry) => ({
+    name: encodeUtf8(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = records.reduce(
+    (sum, r) => sum + 30 + r.name.length + r.data.length,
+    0
+  );
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = dataViewOf(bytes);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const r of records) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, r.crc, true);
+    view.setUint32(offset + 18, r.data.length, true);
+    view.setUint32(offset + 22, r.data.length, true);
+    view.setUint16(offset + 26, r.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(r.name, offset + 30);
+    bytes.set(r.data, offset + 30 + r.name.length);
+    offset += 30 + r.name.length + r.data.length;
+  }
+
+  const centralOffset = offset;
+  records.forEach((r, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, r.crc, true);
+    view.setUint32(offset + 20, r.data.length, true);
+    view.setUint32(offset + 24, r.data.length, true);
+    view.setUint16(offset + 28, r.name.length, true);
+    // extra / comment / disk / 内部属性 / 外部属性は 0
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(r.name, offset + 46);
+    offset += 46 + r.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return bytes;
+};
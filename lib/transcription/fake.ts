@@ -0,0 +1,20 @@
+import { readAudioMetadata } from "@/lib/audio/metadata";
+
+import type { TranscriptionProvider } from "./types";
+
+const FAKE_DELAY_MS = 600;
+
+/**
+ * ネットワークを使わない動作確認用のプロバイダー。
+ * 録音の長さだけを使った決まった文を返す。
+ */
+export const fakeTranscriptionProvider: TranscriptionProvider = {
+  id: "fake",
+  title: "ローカル（テスト用）",
+  description: "API を使わず、録音の長さを含む固定の文を返します",
+  transcribe: async (audioUri) => {
+    await new Promise((resolve) => setTimeout(resolve, FAKE_DELAY_MS));
+    const { durationSec } = await readAudioMetadata(audioUri);
+    return `テスト用の文字起こしです（${durationSec.toFixed(1)}秒の録音）`;
+  },
+};
@@ -0,0 +1,26 @@
+import { audioPartOf } from "@/lib/gemini/audio";
+import { loadApiKey } from "@/lib/gemini/apiKey";
+import { generateText } from "@/lib/gemini/client";
+
+import type { TranscriptionProvider } from "./types";
+
+const TRANSCRIBE_INSTRUCTION =
+  "音声を文字起こししてください。話された言葉だけをそのままの言語で出力し、説明や記号は付けないでください。" +
+  "話し声が含まれていない場合は何も出力しないでください。";
+
+export const geminiTranscriptionProvider: TranscriptionProvider = {
+  id: "gemini",
+  title: "Gemini",
+  description: "録音を Gemini に送って文字起こしします（API キーが必要）",
+  transcribe: async (audioUri) => {
+    const apiKey = await loadApiKey();
+    if (!apiKey.trim()) {
+      throw new Error("Gemini APIキーが設定されていません");
+    }
+    const text = await generateText(apiKey, {
+      systemInstruction: { parts: [{ text: TRANSCRIBE_INSTRUCTION }] },
+      contents: [{ parts: [await audioPartOf(audioUri)] }],
+    });
+    return text.trim();
+  },
+};
@@ -0,0 +1,17 @@
+import { fakeTranscriptionProvider } from "./fake";
+import { geminiTranscriptionProvider } from "./gemini";
+import type { TranscriptionProvider, TranscriptionProviderId } from "./types";
+
+export type { TranscriptionProvider, TranscriptionProviderId } from "./types";
+
+/** 設定画面に並べる順のプロバイダー一覧 */
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProvider[] = [
+  geminiTranscriptionProvider,
+  fakeTranscriptionProvider,
+];
+
+export const findTranscriptionProvider = (
+  id: TranscriptionProviderId
+): TranscriptionProvider =>
+  TRANSCRIPTION_PROVIDERS.find((p) => p.id === id) ??
+  geminiTranscriptionProvider;
@@ -0,0 +1,10 @@
+export type TranscriptionProviderId = "gemini" | "fake";
+
+/** 音声ファイルを文字に起こすプロバイダー */
+export type TranscriptionProvider = {
+  id: TranscriptionProviderId;
+  title: string;
+  description: string;
+  /** 文字起こしの結果を返す。話し声がなければ空文字 */
+  transcribe: (audioUri: string) => Promise<string>;
+};
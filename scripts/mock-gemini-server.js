@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+/**
+ * Gemini API (generateContent) のローカルモック。
+ * ボイスチャットの返答パイプラインを実際の API キーなしで確認するために使う。
+ *
+ *   npm run mock:gemini
+ *   EXPO_PUBLIC_GEMINI_API_BASE_URL=http://<このPCのIP>:8787/v1beta npx expo start
+ *
+ * - テキストモデル: 受け取った音声の MIME タイプとサイズを含む固定の返答を返す
+ *   （systemInstruction が文字起こしの指示なら固定の文字起こしを返す）
+ * - TTS モデル (responseModalities: ["AUDIO"]): 24kHz/16bit モノラルの PCM を返す
+ * - x-goog-api-key がない場合は 401、MOCK_GEMINI_FAIL=1 なら常に 500 を返す
+ */
+
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 8787;
+const SAMPLE_RATE = 24000;
+const ROUTE = /^\/v1beta\/models\/([^/:]+):generateContent$/;
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, message) =>
+  sendJson(res, status, { error: { code: status, message, status: "MOCK" } });
+
+// 返答テキストの長さに比例した長さの、音量が揺れる 440Hz のトーン
+const createPcm = (text) => {
+  const seconds = Math.min(10, Math.max(1, text.length * 0.08));
+  const samples = Math.floor(SAMPLE_RATE * seconds);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = 0.3 + 0.2 * Math.sin(2 * Math.PI * 3 * t);
+    const value = Math.sin(2 * Math.PI * 440 * t) * envelope;
+    pcm.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return pcm;
+};
+
+const handleGenerate = (model, request, res) => {
+  const wantsAudio =
+    request.generationConfig?.responseModalities?.includes("AUDIO") ?? false;
+  const parts = request.contents?.flatMap((content) => content.parts ?? []) ?? [];
+
+  if (wantsAudio) {
+    const text = parts.map((part) => part.text ?? "").join("");
+    return sendJson(res, 200, {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              {
+                inlineData: {
+                  mimeType: `audio/L16;codec=pcm;rate=${SAMPLE_RATE}`,
+                  data: createPcm(text).toString("base64"),
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+  }
+
+  const audio = parts.find((part) => part.inline_data || part.inlineData);
+  const inline = audio?.inline_data ?? audio?.inlineData;
+  const instruction =
+    request.systemInstruction?.parts?.map((part) => part.text ?? "").join("") ??
+    "";
+  const size = inline ? Buffer.from(inline.data, "base64").length : 0;
+  const text = instruction.includes("文字起こし")
+    ? `これはモックの文字起こしです（${size} バイト）`
+    : inline
+      ? `モックの返答です。${inline.mime_type ?? inline.mimeType} の音声を ${size} バイト受け取りました。`
+      : `モックの返答です（${model}）。`;
+
+  return sendJson(res, 200, {
+    candidates: [{ content: { role: "model", parts: [{ text }] } }],
+  });
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Content-Type, x-goog-api-key",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+    });
+    return res.end();
+  }
+
+  const match = ROUTE.exec(req.url ?? "");
+  if (req.method !== "POST" || !match) {
+    return sendError(res, 404, `Not found: ${req.method} ${req.url}`);
+  }
+  if (!req.headers["x-goog-api-key"]) {
+    return sendError(res, 401, "API key not valid. Please pass a valid API key.");
+  }
+  if (process.env.MOCK_GEMINI_FAIL === "1") {
+    return sendError(res, 500, "Mock failure (MOCK_GEMINI_FAIL=1)");
+  }
+
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    let request;
+    try {
+      request = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      return sendError(res, 400, "Invalid JSON payload");
+    }
+    console.log(`[mock-gemini] ${match[1]}`);
+    handleGenerate(match[1], request, res);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Gemini API listening on http://localhost:${PORT}/v1beta`);
+});